@@ -10,17 +10,31 @@ import {
     peekSubscriptionMessagesBySequence,
     receiveAndLockQueueMessage,
     receiveAndLockSubscriptionMessage,
+    receiveDeferredQueueMessages,
+    receiveDeferredSubscriptionMessages,
     complete,
     abandon,
+    defer,
     deadLetter,
+    renewLock,
+    autoRenewLock,
     getMessageSessions
 } from './src/peekOperations.js';
 
+import {
+    browseEntity,
+    peekByTimeRange
+} from './src/browseOperations.js';
+
 import {
     sendQueueMessage,
     sendTopicMessage,
     sendQueueMessageBatch,
     sendTopicMessageBatch,
+    sendQueueSessionMessageBatch,
+    sendTopicSessionMessageBatch,
+    resubmitQueueMessages,
+    resubmitTopicMessages,
     cancelScheduledQueueMessages,
     cancelScheduledTopicMessages
 } from './src/sendOperations.js';
@@ -33,17 +47,27 @@ import {
     deadLetterQueueMessagesBySequence,
     deadLetterSubscriptionMessagesBySequence,
     purgeQueueDirect,
-    purgeSubscriptionDirect
+    purgeSubscriptionDirect,
+    purgeMatching,
+    resumePurgeMatching
 } from './src/purgeOperations.js';
 
+import {
+    moveMessagesBySequence
+} from './src/moveOperations.js';
+
 import {
     searchQueueMessages,
-    searchSubscriptionMessages
+    searchSubscriptionMessages,
+    resumeSearch,
+    searchEntities
 } from './src/searchOperations.js';
 
 import {
     monitorQueue,
-    monitorSubscription
+    monitorSubscription,
+    monitorEntities,
+    watchDeadLetters
 } from './src/monitorOperations.js';
 
 import {
@@ -63,6 +87,30 @@ import {
     removeRule
 } from './src/ruleOperations.js';
 
+import {
+    getQueueSessionState,
+    getSubscriptionSessionState,
+    setQueueSessionState,
+    setSubscriptionSessionState
+} from './src/sessionOperations.js';
+
+import {
+    beginTransaction
+} from './src/transactionOperations.js';
+
+import {
+    disposeNamespace
+} from './src/connectionPool.js';
+
+import {
+    setTokenProvider
+} from './src/connection.js';
+
+import {
+    parseConnectionString,
+    generateSasToken
+} from './src/connectionString.js';
+
 // Export for browser JS usage
 if (typeof window !== 'undefined') {
     (window as any).ServiceBusAPI = {
@@ -73,18 +121,29 @@ if (typeof window !== 'undefined') {
         peekSubscriptionMessagesBySequence,
         receiveAndLockQueueMessage,
         receiveAndLockSubscriptionMessage,
+        receiveDeferredQueueMessages,
+        receiveDeferredSubscriptionMessages,
         getMessageSessions,
+        browseEntity,
+        peekByTimeRange,
 
         // Settlement operations (stateless - take LockedMessage[])
         complete,
         abandon,
+        defer,
         deadLetter,
+        renewLock,
+        autoRenewLock,
 
         // Send operations
         sendQueueMessage,
         sendTopicMessage,
         sendQueueMessageBatch,
         sendTopicMessageBatch,
+        sendQueueSessionMessageBatch,
+        sendTopicSessionMessageBatch,
+        resubmitQueueMessages,
+        resubmitTopicMessages,
 
         // Destructive operations
         purgeQueue,
@@ -95,16 +154,23 @@ if (typeof window !== 'undefined') {
         cancelScheduledTopicMessages,
         deadLetterQueueMessagesBySequence,
         deadLetterSubscriptionMessagesBySequence,
+        moveMessagesBySequence,
         purgeQueueDirect,
         purgeSubscriptionDirect,
+        purgeMatching,
+        resumePurgeMatching,
 
         // Monitor operations
         monitorQueue,
         monitorSubscription,
+        monitorEntities,
+        watchDeadLetters,
 
         // Search operations
         searchQueueMessages,
         searchSubscriptionMessages,
+        resumeSearch,
+        searchEntities,
 
         // Simulator control (demo / local-dev mode)
         enableSimulator,
@@ -119,7 +185,22 @@ if (typeof window !== 'undefined') {
         // Rule operations
         enumerateRules,
         addRule,
-        removeRule
+        removeRule,
+
+        // Session state operations
+        getQueueSessionState,
+        getSubscriptionSessionState,
+        setQueueSessionState,
+        setSubscriptionSessionState,
+
+        // Transaction operations
+        beginTransaction,
+
+        // Connection management
+        disposeNamespace,
+        setTokenProvider,
+        parseConnectionString,
+        generateSasToken
     };
 }
 
@@ -131,18 +212,29 @@ export {
     peekSubscriptionMessagesBySequence,
     receiveAndLockQueueMessage,
     receiveAndLockSubscriptionMessage,
+    receiveDeferredQueueMessages,
+    receiveDeferredSubscriptionMessages,
     getMessageSessions,
+    browseEntity,
+    peekByTimeRange,
 
     // Settlement operations (stateless - take LockedMessage[])
     complete,
     abandon,
+    defer,
     deadLetter,
+    renewLock,
+    autoRenewLock,
 
     // Send operations
     sendQueueMessage,
     sendTopicMessage,
     sendQueueMessageBatch,
     sendTopicMessageBatch,
+    sendQueueSessionMessageBatch,
+    sendTopicSessionMessageBatch,
+    resubmitQueueMessages,
+    resubmitTopicMessages,
 
     // Destructive operations
     purgeQueue,
@@ -153,16 +245,23 @@ export {
     cancelScheduledTopicMessages,
     deadLetterQueueMessagesBySequence,
     deadLetterSubscriptionMessagesBySequence,
+    moveMessagesBySequence,
     purgeQueueDirect,
     purgeSubscriptionDirect,
+    purgeMatching,
+    resumePurgeMatching,
 
     // Monitor operations
     monitorQueue,
     monitorSubscription,
+    monitorEntities,
+    watchDeadLetters,
 
     // Search operations
     searchQueueMessages,
     searchSubscriptionMessages,
+    resumeSearch,
+    searchEntities,
 
     // Simulator control (demo / local-dev mode)
     enableSimulator,
@@ -177,5 +276,20 @@ export {
     // Rule operations
     enumerateRules,
     addRule,
-    removeRule
+    removeRule,
+
+    // Session state operations
+    getQueueSessionState,
+    getSubscriptionSessionState,
+    setQueueSessionState,
+    setSubscriptionSessionState,
+
+    // Transaction operations
+    beginTransaction,
+
+    // Connection management
+    disposeNamespace,
+    setTokenProvider,
+    parseConnectionString,
+    generateSasToken
 };
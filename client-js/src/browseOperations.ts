@@ -0,0 +1,271 @@
+import { acquireManagementClient } from './connectionPool.js';
+import type { ManagementClientLease } from './connectionPool.js';
+import type { ManagementClient } from './managementClient.js';
+import { parseServiceBusMessage } from './messageParser.js';
+import type { BrowseOptions, ServiceBusMessage } from './types.js';
+
+const DEFAULT_BATCH_SIZE = 100;
+// Consecutive empty peeks before the end of the entity is assumed
+const MAX_EMPTY_BATCHES = 3;
+// Attempts per batch before a failing peek ends the browse
+const MAX_BATCH_ATTEMPTS = 3;
+const BATCH_RETRY_DELAY_MS = 500;
+const DEFAULT_POLL_INTERVAL_MS = 2000;
+
+/**
+ * Page through an entity with peeks, in sequence order (read-only, no side effects).
+ * Stop early with options.signal or by breaking out of the loop; the management link is shared with the pool.
+ * @param entityPath - Queue or subscription path, e.g. "orders" or "events/subscriptions/audit"
+ */
+export async function* browseEntity(
+    namespace: string,
+    entityPath: string,
+    token: string,
+    options: BrowseOptions = {}
+): AsyncGenerator<ServiceBusMessage, void, undefined> {
+    const path = options.fromDeadLetter ? `${entityPath}/$DeadLetterQueue` : entityPath;
+    let lease: ManagementClientLease | null = null;
+    let failed = false;
+
+    try {
+        lease = await acquireManagementClient(namespace, token, path);
+        for await (const batch of peekPages(lease.client, options)) {
+            for (const message of batch) {
+                if (options.signal?.aborted) return;
+                yield message;
+            }
+        }
+    } catch (err) {
+        failed = true;
+        throw new Error(`Browse failed: ${(err as Error).message}`);
+    } finally {
+        lease?.release(failed);
+    }
+}
+
+/**
+ * Peek the messages enqueued between from and to (inclusive), in sequence order.
+ * The start of the window is found by probing single-message peeks (galloping, then binary
+ * search over sequence numbers), so only the window itself is paged through.
+ * Assumes enqueued times grow with sequence numbers, as they do for messages sent directly.
+ * @param options - fromSequenceNumber and maxMessages are ignored; the window decides both ends
+ */
+export async function* peekByTimeRange(
+    namespace: string,
+    entityPath: string,
+    token: string,
+    from: Date | string | number,
+    to: Date | string | number,
+    options: BrowseOptions = {}
+): AsyncGenerator<ServiceBusMessage, void, undefined> {
+    const fromTime = new Date(from).getTime();
+    const toTime = new Date(to).getTime();
+    if (Number.isNaN(fromTime) || Number.isNaN(toTime) || fromTime > toTime) {
+        throw new Error('Peek by time range failed: from and to must be valid times, from before to');
+    }
+
+    const path = options.fromDeadLetter ? `${entityPath}/$DeadLetterQueue` : entityPath;
+    let lease: ManagementClientLease | null = null;
+    let failed = false;
+
+    try {
+        lease = await acquireManagementClient(namespace, token, path);
+        const start = await findFirstSequenceAtOrAfter(lease.client, fromTime, options.sessionId);
+        if (start === null) return;
+
+        const pageOptions: BrowseOptions = { ...options, fromSequenceNumber: start, maxMessages: undefined, follow: false };
+        for await (const batch of peekPages(lease.client, pageOptions)) {
+            for (const message of batch) {
+                if (options.signal?.aborted) return;
+                const enqueued = enqueuedTimeOf(message);
+                if (enqueued > toTime) return;
+                if (enqueued >= fromTime) yield message;
+            }
+        }
+    } catch (err) {
+        failed = true;
+        throw new Error(`Peek by time range failed: ${(err as Error).message}`);
+    } finally {
+        lease?.release(failed);
+    }
+}
+
+/**
+ * Sequence number of the first message enqueued at or after time, or null when there is none
+ */
+async function findFirstSequenceAtOrAfter(client: ManagementClient, time: number, sessionId?: string): Promise<number | null> {
+    // First message at or after sequenceNumber (peeks skip gaps), null past the end
+    const probe = async (sequenceNumber: number): Promise<ServiceBusMessage | null> => {
+        const [message] = await peekWithRetry(client, sequenceNumber, 1, sessionId, undefined);
+        return message ? parseServiceBusMessage(message) : null;
+    };
+
+    const first = await probe(0);
+    if (!first) return null;
+    if (enqueuedTimeOf(first) >= time) return first.sequenceNumber!;
+
+    // Invariant: the message at low is older than time; every message from high on is not
+    let low = first.sequenceNumber!;
+    let high = 0;
+    for (let step = 1; ; step *= 2) {
+        const message = await probe(low + step);
+        if (!message) {
+            high = low + step;
+            break;
+        }
+        if (enqueuedTimeOf(message) >= time) {
+            high = message.sequenceNumber!;
+            break;
+        }
+        low = message.sequenceNumber!;
+    }
+
+    while (high - low > 1) {
+        const middle = low + Math.floor((high - low) / 2);
+        const message = await probe(middle);
+        if (!message || message.sequenceNumber! >= high) {
+            high = middle; // nothing between middle and high
+        } else if (enqueuedTimeOf(message) >= time) {
+            high = message.sequenceNumber!;
+        } else {
+            low = message.sequenceNumber!;
+        }
+    }
+
+    const start = await probe(high);
+    return start ? start.sequenceNumber! : null;
+}
+
+/**
+ * Highest sequence number in the entity (0 when empty), found with single-message probes -
+ * galloping past the end, then binary search - so deep entities need no full scan
+ */
+export async function findLastSequenceNumber(client: ManagementClient, sessionId?: string): Promise<number> {
+    // Sequence number of the first message at or after sequenceNumber, null past the end
+    const probe = async (sequenceNumber: number): Promise<number | null> => {
+        const [message] = await peekWithRetry(client, sequenceNumber, 1, sessionId, undefined);
+        return message ? parseServiceBusMessage(message).sequenceNumber ?? null : null;
+    };
+
+    const first = await probe(0);
+    if (first === null) return 0;
+
+    // Invariant: a message exists at low; none exists from high on
+    let low = first;
+    let high = 0;
+    for (let step = 1; ; step *= 2) {
+        const found = await probe(low + step);
+        if (found === null) {
+            high = low + step;
+            break;
+        }
+        low = found;
+    }
+
+    while (high - low > 1) {
+        const middle = low + Math.floor((high - low) / 2);
+        const found = await probe(middle);
+        if (found === null) {
+            high = middle;
+        } else {
+            low = found;
+        }
+    }
+    return low;
+}
+
+function enqueuedTimeOf(message: ServiceBusMessage): number {
+    const time = message.enqueuedTime ? Date.parse(message.enqueuedTime) : NaN;
+    return Number.isNaN(time) ? 0 : time;
+}
+
+/**
+ * Peek batches from options.fromSequenceNumber on, each message once and in order.
+ * Gaps in the sequence are skipped, transient peek errors retried; with follow set the end
+ * of the entity is polled for new messages instead of ending the iteration.
+ */
+export async function* peekPages(
+    client: ManagementClient,
+    options: BrowseOptions = {}
+): AsyncGenerator<ServiceBusMessage[], void, undefined> {
+    const batchSize = Math.max(1, Math.floor(options.batchSize ?? DEFAULT_BATCH_SIZE));
+    const maxMessages = options.maxMessages ?? Number.MAX_SAFE_INTEGER;
+    const signal = options.signal;
+    let nextSequenceNumber = options.fromSequenceNumber ?? 0;
+    let emptyBatches = 0;
+    let yielded = 0;
+
+    while (!signal?.aborted && yielded < maxMessages) {
+        const batch = await peekBatch(client, nextSequenceNumber, Math.min(batchSize, maxMessages - yielded), options.sessionId, signal);
+        if (signal?.aborted) return;
+
+        if (batch.length === 0) {
+            emptyBatches++;
+            if (emptyBatches < MAX_EMPTY_BATCHES) continue;
+            if (!options.follow) return;
+            emptyBatches = 0;
+            await sleep(options.pollIntervalMs ?? DEFAULT_POLL_INTERVAL_MS, signal);
+            continue;
+        }
+
+        emptyBatches = 0;
+        nextSequenceNumber = batch[batch.length - 1].sequenceNumber! + 1;
+        yielded += batch.length;
+        yield batch;
+    }
+}
+
+/**
+ * Peek one batch from fromSequenceNumber on, parsed and in sequence order, retrying transient errors.
+ * The step peekPages repeats - callers that poll on their own schedule (the monitors) use it directly.
+ */
+export async function peekBatch(
+    client: ManagementClient,
+    fromSequenceNumber: number,
+    count: number,
+    sessionId?: string,
+    signal?: AbortSignal
+): Promise<ServiceBusMessage[]> {
+    const raw = await peekWithRetry(client, fromSequenceNumber, count, sessionId, signal);
+    const batch: ServiceBusMessage[] = [];
+    let nextSequenceNumber = fromSequenceNumber;
+    for (const message of raw) {
+        const parsed = parseServiceBusMessage(message);
+        const sequenceNumber = parsed.sequenceNumber;
+        // Peeks return messages from the requested sequence number on - anything older is a repeat
+        if (sequenceNumber === undefined || sequenceNumber < nextSequenceNumber) continue;
+        nextSequenceNumber = sequenceNumber + 1;
+        batch.push(parsed);
+    }
+    return batch;
+}
+
+async function peekWithRetry(
+    client: ManagementClient,
+    fromSequenceNumber: number,
+    count: number,
+    sessionId: string | undefined,
+    signal: AbortSignal | undefined
+): Promise<any[]> {
+    for (let attempt = 1; ; attempt++) {
+        try {
+            return await client.peekMessages(fromSequenceNumber, count, sessionId);
+        } catch (err) {
+            if (attempt >= MAX_BATCH_ATTEMPTS || signal?.aborted) throw err;
+            console.warn(`[ServiceBusAPI] Peek from ${fromSequenceNumber} failed (attempt ${attempt}), retrying...`, err);
+            await sleep(BATCH_RETRY_DELAY_MS, signal);
+        }
+    }
+}
+
+function sleep(ms: number, signal: AbortSignal | undefined): Promise<void> {
+    return new Promise(resolve => {
+        const timer = setTimeout(done, ms);
+        function done() {
+            clearTimeout(timer);
+            signal?.removeEventListener('abort', done);
+            resolve();
+        }
+        signal?.addEventListener('abort', done);
+    });
+}
@@ -5,11 +5,43 @@
 
 import rhea from 'rhea';
 import type { Connection } from 'rhea';
-import type { CBSAuthResult } from './types.js';
+import type { CBSAuthResult, TokenProvider } from './types.js';
 import { formatAmqpError } from './types.js';
+import { getTokenExpiry } from './messageParser.js';
+import { isConnectionString, parseConnectionString, createConnectionStringTokenProvider } from './connectionString.js';
+import { TransactionCoordinator } from './transaction.js';
+import type { Transaction } from './transaction.js';
 
 import { GlobalMockBroker } from './mockBroker.js';
 
+// Re-put tokens this long before they expire
+const TOKEN_REFRESH_MARGIN_MS = 5 * 60 * 1000;
+// Used when the token expiry cannot be read (opaque tokens)
+const DEFAULT_TOKEN_REFRESH_INTERVAL_MS = 20 * 60 * 1000;
+const TOKEN_REFRESH_RETRY_MS = 30 * 1000;
+// Never refresh more often than this, even when the token is already inside the margin
+const MIN_TOKEN_REFRESH_INTERVAL_MS = 30 * 1000;
+const MAX_TIMER_DELAY_MS = 2147483647;
+
+// Token providers registered per namespace, used by connections created without one
+const tokenProviders = new Map<string, TokenProvider>();
+
+function normalizeNamespaceKey(namespace: string): string {
+    return namespace.toLowerCase().replace(/\.servicebus\.windows\.net$/, '');
+}
+
+/**
+ * Register a token provider for every connection to a namespace (null removes it)
+ */
+export function setTokenProvider(namespace: string, provider: TokenProvider | null): void {
+    const key = normalizeNamespaceKey(namespace);
+    if (provider) {
+        tokenProviders.set(key, provider);
+    } else {
+        tokenProviders.delete(key);
+    }
+}
+
 /**
  * Service Bus Connection with CBS authentication
  */
@@ -19,11 +51,33 @@ export class ServiceBusConnection {
     public connection: Connection | null = null;
     public token: string;
     private cbsAuthenticated: boolean = false;
+    private closed: boolean = false;
     private useMock: boolean = false;
     private readonly customWebSocketUrl: string | null = null;
+    private readonly requestedNamespace: string;
+    private tokenProvider: TokenProvider | null;
+    private readonly authorizedEntities = new Set<string>();
+    private cbsQueue: Promise<unknown> = Promise.resolve();
+    private refreshTimer: ReturnType<typeof setTimeout> | null = null;
+    // Refreshes in a row where the provider gave back no newer token
+    private staleTokenRefreshes = 0;
+    private coordinator: TransactionCoordinator | null = null;
+
+    /**
+     * @param token - Entra ID token, SAS token, or a connection string (SAS tokens are then signed locally)
+     */
+    constructor(namespace: string, token: string, tokenProvider?: TokenProvider) {
+        if (isConnectionString(token)) {
+            const properties = parseConnectionString(token);
+            namespace = namespace || properties.namespace;
+            tokenProvider = tokenProvider ?? createConnectionStringTokenProvider(properties);
+            // Signed on first CBS put-token
+            token = '';
+        }
 
-    constructor(namespace: string, token: string) {
         this.token = token;
+        this.requestedNamespace = namespace;
+        this.tokenProvider = tokenProvider ?? null;
         
         if (namespace.startsWith('ws://') || namespace.startsWith('wss://')) {
             this.customWebSocketUrl = namespace;
@@ -56,6 +110,11 @@ export class ServiceBusConnection {
      * Connect to Service Bus via AMQP over WebSocket
      */
     async connect(): Promise<void> {
+        // A reconnect starts a fresh AMQP connection with no tokens put yet
+        this.closed = false;
+        this.authorizedEntities.clear();
+        this.coordinator = null;
+
         return new Promise((resolve, reject) => {
             const wsUrl = this.customWebSocketUrl || `wss://${this.hostname}:443/$servicebus/websocket`;
             const isSecure = wsUrl.startsWith('wss://');
@@ -68,6 +127,7 @@ export class ServiceBusConnection {
             if ((globalThis as any).__BUSSIN_SIMULATOR_ACTIVE__) {
                 console.log(`[ServiceBusConnection] Initializing Mock Connection for ${this.namespace}`);
                 this.connection = GlobalMockBroker.connect({ container_id: `bussin-${this.namespace}` }) as any as Connection;
+                this.trackClose();
                 resolve();
                 return;
             } else {
@@ -82,6 +142,7 @@ export class ServiceBusConnection {
                     transport: isSecure ? 'ssl' : undefined,
                     reconnect: false
                 } as any);
+                this.trackClose();
             }
 
             this.connection!.on('connection_open', () => {
@@ -104,10 +165,112 @@ export class ServiceBusConnection {
 
     /**
      * Perform CBS (Claims-Based Security) authentication
+     * The entity is remembered and re-authorized whenever the token is refreshed.
      */
     async authenticateCBS(entityPath: string): Promise<CBSAuthResult> {
+        // CBS replies are not correlated, so put-token requests go one at a time
+        const pending = this.cbsQueue.catch(() => { }).then(async () => {
+            if (!this.token) {
+                this.token = await this.fetchToken();
+            }
+            return this.putToken(entityPath);
+        });
+        this.cbsQueue = pending;
+
+        const result = await pending;
+        this.authorizedEntities.add(entityPath);
+        this.scheduleTokenRefresh();
+        return result;
+    }
+
+    /**
+     * Replace the token provider used to refresh this connection's token
+     */
+    setTokenProvider(provider: TokenProvider | null): void {
+        this.tokenProvider = provider;
+        this.scheduleTokenRefresh();
+    }
+
+    /**
+     * Fetch a fresh token from the provider and re-put it for every authorized entity
+     */
+    async refreshToken(): Promise<void> {
+        const previousExpiry = getTokenExpiry(this.token);
+        const token = await this.fetchToken();
+        const expiry = getTokenExpiry(token);
+
+        // Same (or older) token again, e.g. a static SAS or a cached Entra token - re-putting it gains
+        // nothing, so keep the current one and ask the provider again later, backing off each time
+        if (previousExpiry && expiry && expiry.getTime() <= previousExpiry.getTime()) {
+            this.staleTokenRefreshes++;
+            const delayMs = Math.min(MIN_TOKEN_REFRESH_INTERVAL_MS * 2 ** this.staleTokenRefreshes, TOKEN_REFRESH_MARGIN_MS);
+            console.warn(`[ServiceBusConnection] Token provider returned no newer token for ${this.namespace}, asking again in ${delayMs / 1000}s`);
+            this.scheduleTokenRefresh(delayMs);
+            return;
+        }
+
+        this.staleTokenRefreshes = 0;
+        this.token = token;
+
+        for (const entityPath of Array.from(this.authorizedEntities)) {
+            await this.authenticateCBS(entityPath);
+        }
+        console.log(`[ServiceBusConnection] Token refreshed for ${this.authorizedEntities.size} entities on ${this.namespace}`);
+        this.scheduleTokenRefresh();
+    }
+
+    private async fetchToken(): Promise<string> {
+        const provider = this.getTokenProvider();
+        if (!provider) {
+            throw new Error('No token provider configured');
+        }
+
+        const token = await provider();
+        if (!token) {
+            throw new Error('Token provider returned an empty token');
+        }
+        return token;
+    }
+
+    private getTokenProvider(): TokenProvider | null {
+        return this.tokenProvider
+            ?? tokenProviders.get(normalizeNamespaceKey(this.requestedNamespace))
+            ?? tokenProviders.get(normalizeNamespaceKey(this.namespace))
+            ?? null;
+    }
+
+    private scheduleTokenRefresh(delayMs?: number): void {
+        this.clearRefreshTimer();
+        if (this.closed || this.authorizedEntities.size === 0 || !this.getTokenProvider()) {
+            return;
+        }
+
+        if (delayMs === undefined) {
+            const expiry = getTokenExpiry(this.token);
+            delayMs = expiry
+                ? expiry.getTime() - Date.now() - TOKEN_REFRESH_MARGIN_MS
+                : DEFAULT_TOKEN_REFRESH_INTERVAL_MS;
+        }
+
+        this.refreshTimer = setTimeout(() => {
+            this.refreshTimer = null;
+            this.refreshToken().catch(err => {
+                console.error('[ServiceBusConnection] Token refresh failed, retrying:', err);
+                this.scheduleTokenRefresh(TOKEN_REFRESH_RETRY_MS);
+            });
+        }, Math.min(Math.max(delayMs, MIN_TOKEN_REFRESH_INTERVAL_MS), MAX_TIMER_DELAY_MS));
+    }
+
+    private clearRefreshTimer(): void {
+        if (this.refreshTimer) {
+            clearTimeout(this.refreshTimer);
+            this.refreshTimer = null;
+        }
+    }
+
+    private putToken(entityPath: string): Promise<CBSAuthResult> {
         if (!this.connection) {
-            throw new Error('Connection not established');
+            return Promise.reject(new Error('Connection not established'));
         }
 
         return new Promise((resolve, reject) => {
@@ -161,12 +324,46 @@ export class ServiceBusConnection {
         });
     }
 
+    /**
+     * Declare a transaction on this connection (the coordinator link is attached on first use).
+     * Sends and settlements enlisted in it must go over this same connection.
+     */
+    async beginTransaction(): Promise<Transaction> {
+        if (!this.connection || this.closed) {
+            throw new Error('Connection not established');
+        }
+        if (!this.coordinator) {
+            this.coordinator = new TransactionCoordinator(this);
+        }
+        return this.coordinator.declare();
+    }
+
+    /**
+     * Whether the connection was closed locally or dropped by the broker
+     */
+    isClosed(): boolean {
+        return this.closed;
+    }
+
     /**
      * Close the connection
      */
     close(): void {
+        this.closed = true;
+        this.clearRefreshTimer();
+        this.coordinator?.close();
+        this.coordinator = null;
         if (this.connection) {
             this.connection.close();
         }
     }
+
+    private trackClose(): void {
+        const markClosed = () => {
+            this.closed = true;
+            this.clearRefreshTimer();
+        };
+        this.connection!.on('disconnected', markClosed);
+        this.connection!.on('connection_close', markClosed);
+    }
 }
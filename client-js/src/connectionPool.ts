@@ -0,0 +1,259 @@
+/**
+ * Service Bus Connection Pool
+ * Shares authenticated AMQP connections and management links across operations
+ */
+
+import { ServiceBusConnection } from './connection.js';
+import { ManagementClient } from './managementClient.js';
+
+// Connections and management links unused for this long are closed
+const IDLE_TIMEOUT_MS = 2 * 60 * 1000;
+const SWEEP_INTERVAL_MS = 30 * 1000;
+
+interface ManagementClientEntry {
+    client: Promise<ManagementClient>;
+    leases: number;
+    lastUsed: number;
+    discarded: boolean;
+}
+
+interface PoolEntry {
+    key: string;
+    namespace: string;
+    connection: ServiceBusConnection;
+    ready: Promise<void>;
+    authorizations: Map<string, Promise<void>>;
+    managementClients: Map<string, ManagementClientEntry>;
+    leases: number;
+    lastUsed: number;
+}
+
+/**
+ * Shared connection, authorized for the requested entity.
+ * Call release() when done instead of closing the connection.
+ */
+export interface ConnectionLease {
+    connection: ServiceBusConnection;
+    release: () => void;
+}
+
+/**
+ * Shared, opened management client for one entity.
+ * Pass discard = true after a failed request so the link is re-created next time.
+ */
+export interface ManagementClientLease {
+    connection: ServiceBusConnection;
+    client: ManagementClient;
+    release: (discard?: boolean) => void;
+}
+
+const pool = new Map<string, PoolEntry>();
+let sweepTimer: ReturnType<typeof setInterval> | null = null;
+
+/**
+ * Lease a connected connection that has put a CBS token for entityPath
+ */
+export async function acquireConnection(
+    namespace: string,
+    token: string,
+    entityPath: string
+): Promise<ConnectionLease> {
+    const entry = await leaseEntry(namespace, token, entityPath);
+
+    let released = false;
+    return {
+        connection: entry.connection,
+        release: () => {
+            if (released) return;
+            released = true;
+            releaseEntry(entry);
+        }
+    };
+}
+
+/**
+ * Lease the shared management client for entityPath, opening it on first use
+ */
+export async function acquireManagementClient(
+    namespace: string,
+    token: string,
+    entityPath: string
+): Promise<ManagementClientLease> {
+    const entry = await leaseEntry(namespace, token, entityPath);
+
+    let mgmt = entry.managementClients.get(entityPath);
+    if (!mgmt) {
+        const client = new ManagementClient(entry.connection, entityPath);
+        mgmt = {
+            client: client.open().then(() => client),
+            leases: 0,
+            lastUsed: Date.now(),
+            discarded: false
+        };
+        entry.managementClients.set(entityPath, mgmt);
+    }
+    const current = mgmt;
+    current.leases++;
+
+    let client: ManagementClient;
+    try {
+        client = await current.client;
+    } catch (err) {
+        current.leases--;
+        dropManagementClient(entry, entityPath, current);
+        releaseEntry(entry);
+        throw err;
+    }
+
+    let released = false;
+    return {
+        connection: entry.connection,
+        client,
+        release: (discard: boolean = false) => {
+            if (released) return;
+            released = true;
+            current.leases--;
+            current.lastUsed = Date.now();
+            if (discard) {
+                dropManagementClient(entry, entityPath, current);
+            } else if (current.discarded && current.leases === 0) {
+                client.close();
+            }
+            releaseEntry(entry);
+        }
+    };
+}
+
+/**
+ * Close every pooled connection and management link for a namespace
+ */
+export function disposeNamespace(namespace: string): void {
+    for (const entry of Array.from(pool.values())) {
+        if (matchesNamespace(entry, namespace)) {
+            closeEntry(entry);
+        }
+    }
+}
+
+async function leaseEntry(namespace: string, token: string, entityPath: string): Promise<PoolEntry> {
+    const entry = getEntry(namespace, token);
+    entry.leases++;
+    entry.lastUsed = Date.now();
+
+    try {
+        await entry.ready;
+        await authorize(entry, entityPath);
+    } catch (err) {
+        releaseEntry(entry);
+        // A failed handshake leaves nothing worth sharing
+        if (entry.connection.isClosed() || !entry.connection.connection) {
+            closeEntry(entry);
+        }
+        throw err;
+    }
+
+    return entry;
+}
+
+function getEntry(namespace: string, token: string): PoolEntry {
+    const key = `${namespace}|${token}`;
+    const existing = pool.get(key);
+    if (existing && !existing.connection.isClosed()) {
+        return existing;
+    }
+    if (existing) {
+        closeEntry(existing);
+    }
+
+    const connection = new ServiceBusConnection(namespace, token);
+    const entry: PoolEntry = {
+        key,
+        namespace,
+        connection,
+        ready: connection.connect(),
+        authorizations: new Map(),
+        managementClients: new Map(),
+        leases: 0,
+        lastUsed: Date.now()
+    };
+    // Rejection is surfaced to every caller awaiting entry.ready
+    entry.ready.catch(() => closeEntry(entry));
+
+    pool.set(key, entry);
+    ensureSweep();
+    return entry;
+}
+
+function authorize(entry: PoolEntry, entityPath: string): Promise<void> {
+    let pending = entry.authorizations.get(entityPath);
+    if (!pending) {
+        pending = entry.connection.authenticateCBS(entityPath).then(() => { });
+        entry.authorizations.set(entityPath, pending);
+        pending.catch(() => entry.authorizations.delete(entityPath));
+    }
+    return pending;
+}
+
+function releaseEntry(entry: PoolEntry): void {
+    entry.leases = Math.max(0, entry.leases - 1);
+    entry.lastUsed = Date.now();
+}
+
+function dropManagementClient(entry: PoolEntry, entityPath: string, mgmt: ManagementClientEntry): void {
+    mgmt.discarded = true;
+    if (entry.managementClients.get(entityPath) === mgmt) {
+        entry.managementClients.delete(entityPath);
+    }
+    if (mgmt.leases === 0) {
+        mgmt.client.then(client => client.close()).catch(() => { });
+    }
+}
+
+function closeEntry(entry: PoolEntry): void {
+    if (pool.get(entry.key) === entry) {
+        pool.delete(entry.key);
+    }
+    for (const mgmt of entry.managementClients.values()) {
+        mgmt.client.then(client => client.close()).catch(() => { });
+    }
+    entry.managementClients.clear();
+    entry.authorizations.clear();
+    try { entry.connection.close(); } catch { }
+}
+
+function matchesNamespace(entry: PoolEntry, namespace: string): boolean {
+    return entry.namespace === namespace
+        || entry.connection.namespace === namespace
+        || entry.connection.hostname === namespace;
+}
+
+function ensureSweep(): void {
+    if (sweepTimer) return;
+    sweepTimer = setInterval(sweepIdle, SWEEP_INTERVAL_MS);
+}
+
+function sweepIdle(): void {
+    const now = Date.now();
+
+    for (const entry of Array.from(pool.values())) {
+        if (entry.connection.isClosed()) {
+            closeEntry(entry);
+            continue;
+        }
+
+        for (const [entityPath, mgmt] of Array.from(entry.managementClients.entries())) {
+            if (mgmt.leases === 0 && now - mgmt.lastUsed > IDLE_TIMEOUT_MS) {
+                dropManagementClient(entry, entityPath, mgmt);
+            }
+        }
+
+        if (entry.leases === 0 && now - entry.lastUsed > IDLE_TIMEOUT_MS) {
+            closeEntry(entry);
+        }
+    }
+
+    if (pool.size === 0 && sweepTimer) {
+        clearInterval(sweepTimer);
+        sweepTimer = null;
+    }
+}
@@ -0,0 +1,124 @@
+/**
+ * Connection String Utilities
+ * Parses Service Bus connection strings and signs SAS tokens in the browser (WebCrypto)
+ */
+
+import type { TokenProvider } from './types.js';
+
+// Lifetime of generated SAS tokens; the connection re-signs before they expire
+const DEFAULT_SAS_TOKEN_LIFETIME_SECONDS = 60 * 60;
+
+/**
+ * Parsed Service Bus connection string
+ */
+export interface ConnectionStringProperties {
+    endpoint: string;
+    namespace: string;
+    sharedAccessKeyName?: string;
+    sharedAccessKey?: string;
+    sharedAccessSignature?: string;
+    entityPath?: string;
+}
+
+/**
+ * Whether a credential string is a connection string rather than a token
+ */
+export function isConnectionString(value: string): boolean {
+    return /^\s*Endpoint\s*=/i.test(value || '');
+}
+
+/**
+ * Parse an "Endpoint=sb://...;SharedAccessKeyName=...;SharedAccessKey=...[;EntityPath=...]" connection string
+ */
+export function parseConnectionString(connectionString: string): ConnectionStringProperties {
+    const parts: Record<string, string> = {};
+    for (const segment of connectionString.split(';')) {
+        const trimmed = segment.trim();
+        if (!trimmed) continue;
+
+        // Split on the first '=' only - keys and signatures may contain base64 padding
+        const separator = trimmed.indexOf('=');
+        if (separator <= 0) {
+            throw new Error(`Invalid connection string segment: ${trimmed}`);
+        }
+        parts[trimmed.substring(0, separator).trim().toLowerCase()] = trimmed.substring(separator + 1).trim();
+    }
+
+    const endpoint = parts['endpoint'];
+    if (!endpoint) {
+        throw new Error('Connection string is missing Endpoint');
+    }
+
+    let namespace: string;
+    try {
+        namespace = new URL(endpoint).host;
+    } catch {
+        throw new Error(`Invalid connection string endpoint: ${endpoint}`);
+    }
+    if (!namespace) {
+        throw new Error(`Invalid connection string endpoint: ${endpoint}`);
+    }
+
+    const properties: ConnectionStringProperties = {
+        endpoint,
+        namespace,
+        sharedAccessKeyName: parts['sharedaccesskeyname'] || undefined,
+        sharedAccessKey: parts['sharedaccesskey'] || undefined,
+        sharedAccessSignature: parts['sharedaccesssignature'] || undefined,
+        entityPath: parts['entitypath'] || undefined
+    };
+
+    if (!properties.sharedAccessSignature && !(properties.sharedAccessKeyName && properties.sharedAccessKey)) {
+        throw new Error('Connection string must contain SharedAccessKeyName and SharedAccessKey, or SharedAccessSignature');
+    }
+
+    return properties;
+}
+
+/**
+ * Resource URI a connection string's key is scoped to (namespace, or entity when EntityPath is set)
+ */
+export function getResourceUri(properties: ConnectionStringProperties): string {
+    return `sb://${properties.namespace}/${properties.entityPath ?? ''}`;
+}
+
+/**
+ * Sign a SAS token for a resource URI using HMAC-SHA256
+ */
+export async function generateSasToken(
+    resourceUri: string,
+    keyName: string,
+    key: string,
+    lifetimeSeconds: number = DEFAULT_SAS_TOKEN_LIFETIME_SECONDS
+): Promise<string> {
+    const subtle = globalThis.crypto?.subtle;
+    if (!subtle) {
+        throw new Error('WebCrypto is not available - SAS signing requires a secure context (HTTPS)');
+    }
+
+    const expiry = Math.floor(Date.now() / 1000) + lifetimeSeconds;
+    const encodedUri = encodeURIComponent(resourceUri);
+    const encoder = new TextEncoder();
+
+    const cryptoKey = await subtle.importKey('raw', encoder.encode(key), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+    const signature = new Uint8Array(await subtle.sign('HMAC', cryptoKey, encoder.encode(`${encodedUri}\n${expiry}`)));
+
+    let binary = '';
+    for (let i = 0; i < signature.length; i++) {
+        binary += String.fromCharCode(signature[i]);
+    }
+
+    return `SharedAccessSignature sr=${encodedUri}&sig=${encodeURIComponent(btoa(binary))}&se=${expiry}&skn=${encodeURIComponent(keyName)}`;
+}
+
+/**
+ * Token provider that signs a fresh SAS token on every call (or returns the embedded SharedAccessSignature)
+ */
+export function createConnectionStringTokenProvider(properties: ConnectionStringProperties): TokenProvider {
+    const { sharedAccessKeyName, sharedAccessKey, sharedAccessSignature } = properties;
+    if (sharedAccessKeyName && sharedAccessKey) {
+        const resourceUri = getResourceUri(properties);
+        return () => generateSasToken(resourceUri, sharedAccessKeyName, sharedAccessKey);
+    }
+    return () => sharedAccessSignature!;
+}
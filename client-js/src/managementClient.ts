@@ -6,6 +6,7 @@
 import rhea from 'rhea';
 import type { ServiceBusConnection } from './connection.js';
 import type { Sender, Receiver } from 'rhea';
+import type { Transaction } from './transaction.js';
 import { parseServiceBusMessage } from './messageParser.js';
 import type { LockedMessage } from './types.js';
 import { formatAmqpError } from './types.js';
@@ -174,8 +175,9 @@ export class ManagementClient {
     /**
      * Receive and delete messages by sequence numbers (batch operation)
      * Uses receive-by-sequence-number with receive-and-delete mode
+     * Returns the sequence numbers of the messages actually received (and so deleted)
      */
-    async receiveAndDeleteBySequenceNumbers(sequenceNumbers: number[]): Promise<void> {
+    async receiveAndDeleteBySequenceNumbers(sequenceNumbers: number[]): Promise<number[]> {
         if (!this.sender || !this.receiver || !this.replyTo) {
             throw new Error('Management client not opened');
         }
@@ -190,8 +192,20 @@ export class ManagementClient {
                 const statusCode = context.message.application_properties?.statusCode;
                 const statusDescription = context.message.application_properties?.statusDescription;
 
-                if (statusCode === 200 || statusCode === 204) {
-                    resolve();
+                if (statusCode === 200) {
+                    const body = context.message.body;
+                    const deleted: number[] = [];
+                    if (body && body.messages) {
+                        const msgArray = Array.isArray(body.messages) ? body.messages : [body.messages];
+                        for (const item of msgArray) {
+                            if (!item['message']) continue;
+                            const sequenceNumber = parseServiceBusMessage(rhea.message.decode(item['message'])).sequenceNumber;
+                            if (sequenceNumber !== undefined) deleted.push(sequenceNumber);
+                        }
+                    }
+                    resolve(deleted);
+                } else if (statusCode === 204) {
+                    resolve([]); // No messages found
                 } else {
                     reject(new Error(`Delete failed: ${statusCode} - ${statusDescription}`));
                 }
@@ -231,7 +245,7 @@ export class ManagementClient {
      * Lock messages by sequence numbers (peek-lock mode)
      * Returns lock tokens that can be used to complete/abandon/dead-letter
      */
-    async lockBySequenceNumbers(sequenceNumbers: number[]): Promise<LockedMessage[]> {
+    async lockBySequenceNumbers(sequenceNumbers: number[], sessionId?: string): Promise<LockedMessage[]> {
         if (!this.sender || !this.receiver || !this.replyTo) {
             throw new Error('Management client not opened');
         }
@@ -288,6 +302,9 @@ export class ManagementClient {
             const messageBody: Record<string, any> = {};
             messageBody['sequence-numbers'] = wrappedSeqNums;
             messageBody['receiver-settle-mode'] = rhea.types.wrap_uint(1); // 1 = peek-lock
+            if (sessionId) {
+                messageBody['session-id'] = sessionId;
+            }
 
             const request = {
                 body: messageBody,
@@ -361,12 +378,14 @@ export class ManagementClient {
     }
 
     /**
-     * Update disposition of locked messages (complete, abandon, dead-letter)
+     * Update disposition of locked messages (complete, abandon, defer, dead-letter)
+     * @param transaction - Enlist the settlement in a transaction declared on this client's connection
      */
-    async updateDisposition(lockTokens: string[], disposition: 'completed' | 'abandoned' | 'suspended', deadLetterReason?: string, deadLetterDescription?: string): Promise<void> {
+    async updateDisposition(lockTokens: string[], disposition: 'completed' | 'abandoned' | 'defered' | 'suspended', deadLetterReason?: string, deadLetterDescription?: string, transaction?: Transaction): Promise<void> {
         if (!this.sender || !this.receiver || !this.replyTo) {
             throw new Error('Management client not opened');
         }
+        transaction?.ensureUsable(this.connection);
 
         return new Promise((resolve, reject) => {
             const replyTo = this.replyTo!;
@@ -394,7 +413,7 @@ export class ManagementClient {
 
             const messageBody: Record<string, any> = {};
             messageBody['lock-tokens'] = lockTokenBuffers;
-            messageBody['disposition-status'] = disposition; // 'completed', 'abandoned', or 'suspended' (dead-letter)
+            messageBody['disposition-status'] = disposition; // 'completed', 'abandoned', 'defered' (sic, protocol spelling) or 'suspended' (dead-letter)
 
             if (disposition === 'suspended' && deadLetterReason) {
                 messageBody['deadletter-reason'] = deadLetterReason;
@@ -410,7 +429,8 @@ export class ManagementClient {
                 message_id: messageId
             };
 
-            this.sender!.send(request);
+            const delivery = this.sender!.send(request);
+            transaction?.enlist(this.sender, delivery);
 
             setTimeout(() => {
                 this.receiver!.removeListener('message', responseHandler);
@@ -419,6 +439,63 @@ export class ManagementClient {
         });
     }
 
+    /**
+     * Renew locks on peek-locked messages
+     * @param associatedLinkName - Receiver link name, when the locks were taken over a receiver link
+     * @returns New locked-until time for each lock token, in request order
+     */
+    async renewLock(lockTokens: string[], associatedLinkName?: string): Promise<Date[]> {
+        if (!this.sender || !this.receiver || !this.replyTo) {
+            throw new Error('Management client not opened');
+        }
+
+        return new Promise((resolve, reject) => {
+            const replyTo = this.replyTo!;
+            const messageId = `renewlock-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+
+            const responseHandler = (context: any) => {
+                if (context.message.correlation_id !== messageId) return;
+
+                const statusCode = context.message.application_properties?.statusCode;
+                const statusDescription = context.message.application_properties?.statusDescription;
+
+                if (statusCode === 200) {
+                    const body = context.message.body;
+                    const rawExpirations = body?.expirations ?? [];
+                    const expirations = (Array.isArray(rawExpirations) ? rawExpirations : [rawExpirations])
+                        .map((e: any) => e instanceof Date ? e : new Date(Number(e)));
+                    resolve(expirations);
+                } else {
+                    reject(new Error(`Renew lock failed: ${statusCode} - ${statusDescription}`));
+                }
+
+                this.receiver!.removeListener('message', responseHandler);
+            };
+
+            this.receiver!.on('message', responseHandler);
+
+            const messageBody: Record<string, any> = {};
+            messageBody['lock-tokens'] = lockTokens.map(uuid => uuidToBuffer(uuid));
+
+            const request = {
+                body: messageBody,
+                reply_to: replyTo,
+                application_properties: {
+                    operation: 'com.microsoft:renew-lock',
+                    ...(associatedLinkName ? { 'associated-link-name': associatedLinkName } : {})
+                },
+                message_id: messageId
+            };
+
+            this.sender!.send(request);
+
+            setTimeout(() => {
+                this.receiver!.removeListener('message', responseHandler);
+                reject(new Error('Renew lock request timeout'));
+            }, 10000);
+        });
+    }
+
     /**
      * Purge messages using batch delete API (what Azure Portal uses)
      * This is the FASTEST way to purge - server-side batch deletion
@@ -783,9 +860,9 @@ export class ManagementClient {
     }
 
     /**
-     * Get session state
+     * Get session state (raw bytes, null when the session has no state)
      */
-    async getSessionState(sessionId: string, associatedLinkName?: string): Promise<string> {
+    async getSessionState(sessionId: string, associatedLinkName?: string): Promise<Uint8Array | null> {
         if (!this.sender || !this.receiver || !this.replyTo) {
             throw new Error('Management client not opened');
         }
@@ -802,21 +879,19 @@ export class ManagementClient {
 
                 if (statusCode === 200 || statusCode === 204) {
                     const body = context.message.body;
-                    let stateVal = '';
+                    let stateVal: Uint8Array | null = null;
                     if (body && body['session-state'] !== undefined && body['session-state'] !== null) {
                         const rawState = body['session-state'];
                         if (typeof rawState === 'string') {
+                            stateVal = new TextEncoder().encode(rawState);
+                        } else if (rawState instanceof Uint8Array) {
                             stateVal = rawState;
                         } else if (rawState && typeof rawState === 'object') {
-                            let data: Uint8Array;
-                            if (rawState instanceof Uint8Array) {
-                                data = rawState;
-                            } else if (rawState.data && Array.isArray(rawState.data)) {
-                                data = new Uint8Array(rawState.data);
+                            if (rawState.data && Array.isArray(rawState.data)) {
+                                stateVal = new Uint8Array(rawState.data);
                             } else {
-                                data = new Uint8Array(Object.values(rawState));
+                                stateVal = new Uint8Array(Object.values(rawState));
                             }
-                            stateVal = new TextDecoder().decode(data);
                         }
                     }
                     resolve(stateVal);
@@ -851,7 +926,10 @@ export class ManagementClient {
         });
     }
 
-    async setSessionState(sessionId: string, state: string | null, associatedLinkName?: string): Promise<void> {
+    /**
+     * Set session state (strings are stored as UTF-8, null clears the state)
+     */
+    async setSessionState(sessionId: string, state: Uint8Array | string | null, associatedLinkName?: string): Promise<void> {
         if (!this.sender || !this.receiver || !this.replyTo) {
             throw new Error('Management client not opened');
         }
@@ -880,7 +958,7 @@ export class ManagementClient {
             const messageBody: Record<string, any> = {};
             messageBody['session-id'] = sessionId;
             if (state !== null && state !== undefined) {
-                const encodedState = new TextEncoder().encode(state);
+                const encodedState = typeof state === 'string' ? new TextEncoder().encode(state) : state;
                 messageBody['session-state'] = rhea.types.wrap_binary(encodedState);
             } else {
                 messageBody['session-state'] = null;
@@ -955,6 +1033,24 @@ function uuidFromBuffer(buffer: Uint8Array | { type: string; data: number[] }):
     return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20, 32)}`;
 }
 
+/**
+ * Convert a receiver delivery tag to the broker lock token
+ * Service Bus delivery tags are .NET GUID bytes (first three groups little-endian)
+ */
+export function lockTokenFromDeliveryTag(tag: Uint8Array | { type: string; data: number[] }): string | null {
+    const bytes = (tag as any)?.type === 'Buffer' ? new Uint8Array((tag as any).data) : tag as Uint8Array;
+    if (!bytes || bytes.length !== 16) {
+        return null;
+    }
+    const reordered = new Uint8Array([
+        bytes[3], bytes[2], bytes[1], bytes[0],
+        bytes[5], bytes[4],
+        bytes[7], bytes[6],
+        ...Array.from(bytes.slice(8))
+    ]);
+    return uuidFromBuffer(reordered);
+}
+
 /**
  * Convert a string UUID to a 16-byte Uint8Array
  */
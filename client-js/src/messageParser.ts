@@ -3,7 +3,7 @@
  * Handles parsing and decoding of AMQP messages
  */
 
-import type { ServiceBusMessage } from './types.js';
+import type { ServiceBusMessage, MessageBodyType } from './types.js';
 
 interface AMQPMessage {
     message_id?: string;
@@ -28,6 +28,8 @@ interface AMQPMessage {
  */
 export function parseServiceBusMessage(amqpMessage: any): ServiceBusMessage {
     const decodedBody = decodeMessageBody(amqpMessage.body);
+    const bodyBytes = getMessageBodyBytes(amqpMessage.body);
+    const { bodyType, bodyValue } = getMessageBodySection(amqpMessage.body);
 
     // AMQP properties can be at top level or in a 'properties' section
     const props = amqpMessage.properties || {};
@@ -158,6 +160,10 @@ export function parseServiceBusMessage(amqpMessage: any): ServiceBusMessage {
     return {
         messageId: amqpMessage.message_id ?? props.message_id,
         body: decodedBody,
+        bodyBase64: bodyBytes ? bytesToBase64(bodyBytes) : undefined,
+        bodyIsUtf8: bodyBytes ? isValidUtf8(bodyBytes) : true,
+        bodyType,
+        bodyValue,
         contentType: amqpMessage.content_type ?? props.content_type,
         correlationId: amqpMessage.correlation_id ?? props.correlation_id,
         sessionId: amqpMessage.group_id ?? props.group_id,
@@ -181,7 +187,9 @@ export function parseServiceBusMessage(amqpMessage: any): ServiceBusMessage {
 }
 
 /**
- * Decode AMQP message body to text/bytes
+ * Decode AMQP message body to text
+ * Data sections are decoded as UTF-8; amqp-value and amqp-sequence bodies that are
+ * not plain strings are rendered as JSON (see getMessageBodySection for the structured value).
  * Does NOT parse JSON - that's the consumer's responsibility
  */
 export function decodeMessageBody(body: any): string {
@@ -192,39 +200,129 @@ export function decodeMessageBody(body: any): string {
         return body;
     }
 
+    const bytes = getMessageBodyBytes(body);
+    if (bytes) {
+        return new TextDecoder('utf-8').decode(bytes);
+    }
+
+    const { bodyValue } = getMessageBodySection(body);
+    if (typeof bodyValue === 'string') {
+        return bodyValue;
+    }
+    return stringifyBodyValue(bodyValue);
+}
+
+/**
+ * Which AMQP body section a message uses, with its structured value.
+ * - data: bodyValue is undefined (see getMessageBodyBytes for the bytes)
+ * - sequence: bodyValue is an array of sections, each a list
+ * - value: bodyValue is the amqp-value (string, number, map, list, ...); undefined for a binary value,
+ *   whose bytes are in bodyBase64 like those of a data body
+ */
+export function getMessageBodySection(body: any): { bodyType: MessageBodyType; bodyValue: unknown } {
+    if (body && typeof body === 'object' && body.typecode === 0x75) {
+        return { bodyType: 'data', bodyValue: undefined };
+    }
+
+    if (body && typeof body === 'object' && body.typecode === 0x76) {
+        return { bodyType: 'sequence', bodyValue: body.multiple ? body.content : [body.content] };
+    }
+
+    // rhea keeps data sections as sections (typecode 0x75, above) and unwraps only amqp-value
+    // sections (0x77) to plain values - so bare bytes are a binary amqp-value
+    if (body instanceof Uint8Array || (body && body.type === 'Buffer' && Array.isArray(body.data))) {
+        return { bodyType: 'value', bodyValue: undefined };
+    }
+
+    return { bodyType: 'value', bodyValue: body ?? null };
+}
+
+/**
+ * Raw bytes of a binary (data section) body, or null when the body is not binary.
+ * Multiple data sections are concatenated.
+ */
+export function getMessageBodyBytes(body: any): Uint8Array | null {
+    if (body === undefined || body === null) return null;
+
     // Unwrap AMQP data section (typecode 117 = binary data)
-    if (body && typeof body === 'object' && body.typecode === 117) {
+    if (typeof body === 'object' && body.typecode === 0x75) {
+        if (body.multiple && Array.isArray(body.content)) {
+            const parts = body.content.map((part: any) => getMessageBodyBytes(part) ?? new Uint8Array(0));
+            const joined = new Uint8Array(parts.reduce((sum: number, part: Uint8Array) => sum + part.length, 0));
+            let offset = 0;
+            for (const part of parts) {
+                joined.set(part, offset);
+                offset += part.length;
+            }
+            return joined;
+        }
         body = body.content;
     }
 
-    // Handle Node Buffer/Vite polyfill Buffer
-    const isBuffer = typeof Buffer !== 'undefined' && Buffer.isBuffer(body);
-
-    // Handle Uint8Array or Buffer - decode to text
-    if (isBuffer || body instanceof Uint8Array) {
-        const decoder = new TextDecoder('utf-8');
-        return decoder.decode(body);
+    // Node Buffer/Vite polyfill Buffer are Uint8Array subclasses
+    if (body instanceof Uint8Array) {
+        return body;
     }
 
-    // Extract byte array from Buffer JSON representation (if it was already stringified/parsed)
+    // Buffer JSON representation (if it was already stringified/parsed)
     if (body && body.type === 'Buffer' && Array.isArray(body.data)) {
-        const bytes = new Uint8Array(body.data);
-        const decoder = new TextDecoder('utf-8');
-        return decoder.decode(bytes);
+        return new Uint8Array(body.data);
     }
 
-    // AMQP value type - recursively unwrap
-    if (body && typeof body === 'object' && body.typecode !== undefined) {
-        if (body.value !== undefined) {
-            return decodeMessageBody(body.value);
-        }
-        if (body.content !== undefined) {
-            return decodeMessageBody(body.content);
-        }
+    return null;
+}
+
+/**
+ * JSON text for structured body values (AMQP longs may decode as bigint, binary as bytes)
+ */
+function stringifyBodyValue(value: unknown): string {
+    try {
+        return JSON.stringify(value, (_key, val) => {
+            if (typeof val === 'bigint') return val.toString();
+            if (val instanceof Uint8Array) return bytesToBase64(val);
+            if (val && val.type === 'Buffer' && Array.isArray(val.data)) return bytesToBase64(new Uint8Array(val.data));
+            return val;
+        }) ?? '';
+    } catch {
+        return String(value);
+    }
+}
+
+/**
+ * Whether bytes are well-formed UTF-8 (the text view of the body is then lossless)
+ */
+export function isValidUtf8(bytes: Uint8Array): boolean {
+    try {
+        new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Encode bytes as base64
+ */
+export function bytesToBase64(bytes: Uint8Array): string {
+    // Chunked to stay below the argument limit of String.fromCharCode
+    let binary = '';
+    const chunkSize = 0x8000;
+    for (let i = 0; i < bytes.length; i += chunkSize) {
+        binary += String.fromCharCode(...bytes.subarray(i, i + chunkSize));
     }
+    return btoa(binary);
+}
 
-    // If it's already a plain object or other type, return as-is
-    return body;
+/**
+ * Decode base64 (whitespace tolerant) to bytes
+ */
+export function base64ToBytes(base64: string): Uint8Array {
+    const binary = atob(base64.replace(/\s+/g, ''));
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) {
+        bytes[i] = binary.charCodeAt(i);
+    }
+    return bytes;
 }
 
 /**
@@ -239,7 +337,8 @@ export function decodeToken(token: string): {
     try {
         const parts = token.split('.');
         if (parts.length === 3) {
-            const payload = JSON.parse(atob(parts[1]));
+            // JWT segments are base64url encoded
+            const payload = JSON.parse(atob(parts[1].replace(/-/g, '+').replace(/_/g, '/')));
             return {
                 audience: payload.aud,
                 roles: payload.roles || [],
@@ -252,3 +351,19 @@ export function decodeToken(token: string): {
     }
     return null;
 }
+
+/**
+ * Read token expiry from a JWT (exp claim) or SAS token (se= field)
+ */
+export function getTokenExpiry(token: string): Date | null {
+    if (token.startsWith('SharedAccessSignature ')) {
+        const match = /(?:^|&)se=(\d+)/.exec(token.substring('SharedAccessSignature '.length));
+        return match ? new Date(Number(match[1]) * 1000) : null;
+    }
+
+    const decoded = decodeToken(token);
+    if (decoded && !isNaN(decoded.expiry.getTime())) {
+        return decoded.expiry;
+    }
+    return null;
+}
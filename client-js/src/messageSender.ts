@@ -4,22 +4,31 @@
  */
 
 import type { ServiceBusConnection } from './connection.js';
+import type { Transaction } from './transaction.js';
 import type { MessageProperties } from './types.js';
 import { formatAmqpError } from './types.js';
 import type { Sender } from 'rhea';
 import { message as rheaMessage } from 'rhea';
 
+const TRANSFER_DESTINATION_ADDRESS = 'com.microsoft:transfer-destination-address';
+
 /**
  * Message Sender - for sending messages
  */
 export class MessageSender {
     private readonly connection: ServiceBusConnection;
     private readonly entityPath: string;
+    private readonly viaEntityPath?: string;
     private sender: Sender | null = null;
 
-    constructor(connection: ServiceBusConnection, entityPath: string) {
+    /**
+     * @param viaEntityPath - Send through this entity (send-via), so the sends can join a transaction
+     * that settles messages on it - Service Bus scopes a transaction to the entity it first touched
+     */
+    constructor(connection: ServiceBusConnection, entityPath: string, viaEntityPath?: string) {
         this.connection = connection;
         this.entityPath = entityPath;
+        this.viaEntityPath = viaEntityPath;
     }
 
     /**
@@ -31,7 +40,11 @@ export class MessageSender {
         }
 
         return new Promise((resolve, reject) => {
-            this.sender = this.connection.connection!.open_sender({
+            // Send-via attaches to the via entity and names the final destination in the link properties
+            this.sender = this.connection.connection!.open_sender(this.viaEntityPath ? {
+                target: { address: this.viaEntityPath },
+                properties: { [TRANSFER_DESTINATION_ADDRESS]: this.entityPath }
+            } : {
                 target: { address: this.entityPath }
             });
 
@@ -49,20 +62,34 @@ export class MessageSender {
 
     /**
      * Send a message
+     * @param transaction - Enlist the send in a transaction declared on this sender's connection
      */
-    async send(body: string | null | undefined, properties: MessageProperties = {}): Promise<void> {
+    async send(body: unknown, properties: MessageProperties = {}, transaction?: Transaction): Promise<void> {
         if (!this.sender) {
             throw new Error('Sender not opened. Call open() first.');
         }
+        transaction?.ensureUsable(this.connection);
 
         const message = this.createAmqpMessage(body, properties);
-        await this.dispatchMessage(message);
+        await this.dispatchMessage(message, transaction);
+    }
+
+    /**
+     * Send a prebuilt AMQP message as-is - no generated message id, content type or bussin stamps
+     */
+    async sendAmqpMessage(message: any, transaction?: Transaction): Promise<void> {
+        if (!this.sender) {
+            throw new Error('Sender not opened. Call open() first.');
+        }
+        transaction?.ensureUsable(this.connection);
+
+        await this.dispatchMessage(message, transaction);
     }
 
     /**
      * Send multiple messages in batch (single connection, multiple sends)
      */
-    async sendBatch(messages: { body: string | null | undefined; properties: MessageProperties }[]): Promise<void> {
+    async sendBatch(messages: { body: unknown; properties: MessageProperties }[]): Promise<void> {
         if (!this.sender) {
             throw new Error('Sender not opened. Call open() first.');
         }
@@ -81,19 +108,32 @@ export class MessageSender {
         }
     }
 
-    private createAmqpMessage(body: string | null | undefined, properties: MessageProperties): any {
-        const textBody = this.normalizeBodyToString(body);
-        const encoder = new TextEncoder();
-        const encodedBody = encoder.encode(textBody);
-        
+    private createAmqpMessage(body: unknown, properties: MessageProperties): any {
         // AMQP standard properties
         const message: any = {
-            body: rheaMessage.data_section(encodedBody),
             message_id: properties.message_id || `msg-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
-            content_type: properties.content_type || 'text/plain; charset=utf-8',
             creation_time: new Date(),
         };
 
+        const bodyType = properties.body_type ?? 'data';
+        if (bodyType === 'value') {
+            // rhea encodes non-section bodies as amqp-value (maps, lists, strings, numbers, ...)
+            message.body = body ?? null;
+            if (properties.content_type) message.content_type = properties.content_type;
+        } else if (bodyType === 'sequence') {
+            if (!Array.isArray(body) || body.length === 0 || !body.every(section => Array.isArray(section))) {
+                throw new Error('amqp-sequence body must be a non-empty array of lists (one per section)');
+            }
+            message.body = body.length === 1 ? rheaMessage.sequence_section(body[0]) : rheaMessage.sequence_sections(body);
+            if (properties.content_type) message.content_type = properties.content_type;
+        } else {
+            // Binary bodies (Avro, protobuf, gzip, ...) go out unchanged; text is sent as UTF-8
+            const isBinary = body instanceof Uint8Array;
+            const encodedBody = isBinary ? body : new TextEncoder().encode(this.normalizeBodyToString(body as string | null | undefined));
+            message.body = rheaMessage.data_section(encodedBody);
+            message.content_type = properties.content_type || (isBinary ? 'application/octet-stream' : 'text/plain; charset=utf-8');
+        }
+
         // Map standard AMQP fields
         if (properties.correlation_id) message.correlation_id = properties.correlation_id;
         if (properties.subject) message.subject = properties.subject;
@@ -124,7 +164,7 @@ export class MessageSender {
         };
 
         // Harvest any other custom properties provided at top level that aren't AMQP reserved fields
-        const reservedFields = ['message_id', 'correlation_id', 'subject', 'content_type', 'reply_to', 'to', 'time_to_live', 'group_id', 'session_id', 'message_annotations', 'application_properties'];
+        const reservedFields = ['message_id', 'correlation_id', 'subject', 'content_type', 'reply_to', 'to', 'time_to_live', 'group_id', 'session_id', 'body_type', 'message_annotations', 'application_properties'];
         for (const key of Object.keys(properties)) {
             if (!reservedFields.includes(key)) {
                 appProps[key] = properties[key];
@@ -177,13 +217,13 @@ export class MessageSender {
         return String(error);
     }
 
-    private async dispatchMessage(message: any): Promise<void> {
+    private async dispatchMessage(message: any, transaction?: Transaction): Promise<void> {
         const maxAttempts = 3;
         const baseTimeout = 10000;
 
         for (let attempt = 1; attempt <= maxAttempts; attempt++) {
             try {
-                await this.dispatchMessageOnce(message, baseTimeout);
+                await this.dispatchMessageOnce(message, baseTimeout, transaction);
                 return; // Success
             } catch (err: any) {
                 const isTimeout = err.message?.includes('sender not ready');
@@ -201,7 +241,7 @@ export class MessageSender {
         }
     }
 
-    private async dispatchMessageOnce(message: any, timeout: number): Promise<void> {
+    private async dispatchMessageOnce(message: any, timeout: number, transaction?: Transaction): Promise<void> {
         await new Promise<void>((resolve, reject) => {
             let settled = false;
 
@@ -209,6 +249,7 @@ export class MessageSender {
                 if (settled) return;
                 try {
                     const delivery = this.sender!.send(message);
+                    transaction?.enlist(this.sender, delivery);
                     
                     // We must wait for the broker to acknowledge the message,
                     // otherwise closing the connection drops it from the local buffer.
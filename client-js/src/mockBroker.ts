@@ -3,6 +3,9 @@ import rhea from 'rhea';
 
 let _nextId = 1;
 
+// Lock duration reported for peek-locked messages (matches the Service Bus default)
+const MOCK_LOCK_DURATION_MS = 60 * 1000;
+
 // Truly global memory store
 if (!(globalThis as any).__BUSSIN_AUDIT_LOG__) {
     (globalThis as any).__BUSSIN_AUDIT_LOG__ = [];
@@ -10,6 +13,7 @@ if (!(globalThis as any).__BUSSIN_AUDIT_LOG__) {
     (globalThis as any).__BUSSIN_TOPOLOGY__ = new Map<string, any>();
     (globalThis as any).__BUSSIN_SEQ_COUNTERS__ = new Map<string, number>();
     (globalThis as any).__BUSSIN_SESSION_STATES__ = new Map<string, any>();
+    (globalThis as any).__BUSSIN_TRANSACTIONS__ = new Map<string, Array<() => void>>();
 }
 
 const _globalAuditLog: string[] = (globalThis as any).__BUSSIN_AUDIT_LOG__;
@@ -17,15 +21,28 @@ const _globalQueues: Map<string, any[]> = (globalThis as any).__BUSSIN_QUEUES__;
 const _globalTopology: Map<string, { type: 'queue' | 'topic' | 'subscription', subscriptions?: string[] }> = (globalThis as any).__BUSSIN_TOPOLOGY__;
 const _globalSeqCounters: Map<string, number> = (globalThis as any).__BUSSIN_SEQ_COUNTERS__;
 const _globalSessionStates: Map<string, any> = (globalThis as any).__BUSSIN_SESSION_STATES__;
+// Work staged per open transaction (keyed by txn-id), applied on commit and dropped on rollback
+const _globalTransactions: Map<string, Array<() => void>> = (globalThis as any).__BUSSIN_TRANSACTIONS__;
+
+// Descriptor of the AMQP declared outcome
+const DECLARED_DESCRIPTOR = 0x33;
 
 /**
  * Build a full AMQP message object from a stored mock message.
  * Copies all relevant AMQP sections so that the message survives
  * the mock encode/decode round-trip (where encode is an identity function).
  */
+/**
+ * Body as Service Bus delivers it. The simulator stores data bodies as bare bytes (seeded, or sent
+ * through rhea's data_section); on the wire they are data sections, which rhea keeps as sections.
+ */
+function toDeliveredBody(body: any): any {
+    return body instanceof Uint8Array ? { typecode: 0x75, content: body } : body;
+}
+
 function buildAmqpMessage(m: any, extraAnnotations?: Record<string, any>): any {
     return {
-        body: m.body,
+        body: toDeliveredBody(m.body),
         message_id: m.message_id,
         content_type: m.content_type,
         correlation_id: m.correlation_id,
@@ -54,7 +71,11 @@ export class MockBroker extends EventEmitter {
         _globalQueues.clear();
         _globalTopology.clear();
         _globalSeqCounters.clear();
+        _globalSessionStates.clear();
+        _globalTransactions.clear();
         _globalAuditLog.length = 0;
+        // Drop every open connection, like a broker restart, so pooled clients reconnect
+        this.emit('reset');
         this.removeAllListeners();
     }
 
@@ -151,9 +172,74 @@ export class MockBroker extends EventEmitter {
         }
     }
 
+    /**
+     * Mark a message deferred: it stays in the entity but is only retrievable by sequence number
+     */
+    public deferMessage(message: any) {
+        message._deferred = true;
+        message.message_annotations = { ...(message.message_annotations || {}), 'x-opt-state': 1 };
+    }
+
+    /**
+     * Declare a transaction and return its txn-id
+     */
+    public declareTransaction(): Uint8Array {
+        const txnId = new TextEncoder().encode(`txn-${_nextId++}`);
+        _globalTransactions.set(transactionKey(txnId), []);
+        this.log('TXN_DECLARE');
+        return txnId;
+    }
+
+    /**
+     * Stage work until the transaction is discharged - false when the transaction is unknown
+     */
+    public enlistInTransaction(txnId: Uint8Array, work: () => void): boolean {
+        const staged = _globalTransactions.get(transactionKey(txnId));
+        if (!staged) return false;
+        staged.push(work);
+        return true;
+    }
+
+    /**
+     * Commit (apply staged work in order) or roll back (drop it) - false when the transaction is unknown
+     */
+    public dischargeTransaction(txnId: Uint8Array, fail: boolean): boolean {
+        const key = transactionKey(txnId);
+        const staged = _globalTransactions.get(key);
+        if (!staged) return false;
+        _globalTransactions.delete(key);
+        if (!fail) {
+            staged.forEach(work => work());
+        }
+        this.log(fail ? `TXN_ROLLBACK x${staged.length}` : `TXN_COMMIT x${staged.length}`);
+        return true;
+    }
+
     public connect(options: any) { return new MockConnection(this, options); }
 }
 
+function transactionKey(txnId: Uint8Array): string {
+    return Array.from(txnId).join(',');
+}
+
+/**
+ * Plain value of something rhea may have wrapped (real rhea hands over Typed values, the test mock plain ones)
+ */
+function plainValue(value: any): any {
+    if (Array.isArray(value)) return value.map(plainValue);
+    if (value && typeof value === 'object' && value.type !== undefined && 'value' in value) return plainValue(value.value);
+    return value;
+}
+
+/**
+ * txn-id from a delivery's transactional state, if it has one
+ */
+function transactionIdOf(delivery: any): Uint8Array | undefined {
+    const state = plainValue(delivery?.transactional_state);
+    const txnId = Array.isArray(state) ? state[0] : undefined;
+    return txnId instanceof Uint8Array ? txnId : undefined;
+}
+
 class MockSession extends EventEmitter {
     constructor(public connection: MockConnection) {
         super();
@@ -175,6 +261,7 @@ class MockConnection extends EventEmitter {
     public receivers = new Set<MockReceiver>();
     public session: any = { connection: this, isOpen: () => true, isClosed: () => false };
     private activityHandler: (addr: string) => void;
+    private resetHandler: () => void;
 
     public create_session() {
         return new MockSession(this);
@@ -194,7 +281,9 @@ class MockConnection extends EventEmitter {
                 }
             }
         };
+        this.resetHandler = () => this.close();
         this.broker.on('activity', this.activityHandler);
+        this.broker.on('reset', this.resetHandler);
         setTimeout(() => this.emit('connection_open', { connection: this }), 1);
     }
 
@@ -203,13 +292,19 @@ class MockConnection extends EventEmitter {
 
     public close() {
         this.broker.removeListener('activity', this.activityHandler);
+        this.broker.removeListener('reset', this.resetHandler);
         this.receivers.forEach(r => r.close());
         this.emit('disconnected', { connection: this });
     }
 
     public open_sender(opts: any) {
+        if (opts?.target?.capabilities?.includes?.('amqp:local-transactions')) {
+            return new MockSender(this.broker, '$coordinator', this, true);
+        }
         const addr = typeof opts === 'string' ? opts : opts.target?.address;
-        return new MockSender(this.broker, addr, this);
+        // Send-via: the link is attached to one entity but delivers to another
+        const destination = typeof opts === 'string' ? undefined : opts.properties?.['com.microsoft:transfer-destination-address'];
+        return new MockSender(this.broker, addr, this, false, destination);
     }
 
     public open_receiver(opts: any) {
@@ -229,7 +324,7 @@ class MockConnection extends EventEmitter {
         return r;
     }
 
-    public handleSystemMessage(msg: any, target: string) {
+    public handleSystemMessage(msg: any, target: string, txnId?: Uint8Array) {
         const correlationId = msg.message_id || msg.correlation_id || msg.application_properties?.['message-id'];
         const replyTo = msg.reply_to || (target === '$cbs' ? '$cbs' : null);
         if (!replyTo) return;
@@ -258,8 +353,10 @@ class MockConnection extends EventEmitter {
                 // Return up to messageCount messages from the entity starting at fromSequenceNumber
                 const fromSeq = Number(msg.body?.['from-sequence-number'] ?? 0);
                 const msgCount = Number(msg.body?.['message-count'] ?? 10);
+                const sessionId = msg.body?.['session-id'];
                 const allMessages = this.broker.getMessages(entityPath);
-                const eligible = allMessages.filter(m => (m._sequenceNumber ?? 0) >= fromSeq);
+                const eligible = allMessages.filter(m =>
+                    (m._sequenceNumber ?? 0) >= fromSeq && (sessionId === undefined || m.group_id === sessionId));
                 const slice = eligible.slice(0, msgCount);
 
                 if (slice.length === 0) {
@@ -293,11 +390,16 @@ class MockConnection extends EventEmitter {
                 const queue = this.broker.getMessages(entityPath);
 
                 if (settleMode === 0) {
-                    // Receive-and-delete
+                    // Receive-and-delete: the received messages come back in the response
+                    const received: any[] = [];
                     seqNums.forEach(seq => {
                         const idx = queue.findIndex(m => m._sequenceNumber === seq);
-                        if (idx !== -1) queue.splice(idx, 1);
+                        if (idx === -1) return;
+                        const [m] = queue.splice(idx, 1);
+                        const amqpMsg = buildAmqpMessage(m, { 'x-opt-sequence-number': m._sequenceNumber });
+                        received.push({ message: rhea.message.encode(amqpMsg) });
                     });
+                    response.body = { messages: received };
                     response.application_properties.statusCode = 200;
                 } else {
                     // Peek-lock (mode 1): return messages with lock tokens
@@ -356,7 +458,7 @@ class MockConnection extends EventEmitter {
                 const queue = this.broker.getMessages(entityPath);
                 console.log(`[MockBroker] Queue size: ${queue.length}.`);
 
-                lockTokenBuffers.forEach((ltBuf: any) => {
+                const settle = () => lockTokenBuffers.forEach((ltBuf: any) => {
                     const ltArray = ltBuf instanceof Uint8Array ? Array.from(ltBuf) : (ltBuf.data ?? []);
                     const idx = queue.findIndex(m =>
                         m._lockToken && JSON.stringify(Array.from(m._lockToken)) === JSON.stringify(ltArray)
@@ -375,12 +477,53 @@ class MockConnection extends EventEmitter {
                         } else if (disposition === 'abandoned') {
                             queue[idx]._lockToken = undefined;
                             this.broker.log(`SETTLEMENT_ABANDONED (${entityPath}) via management`);
+                        } else if (disposition === 'defered') {
+                            queue[idx]._lockToken = undefined;
+                            this.broker.deferMessage(queue[idx]);
+                            this.broker.log(`SETTLEMENT_DEFERRED (${entityPath}) via management`);
                         }
                     }
                 });
 
-                response.application_properties.statusCode = 200;
-                response.application_properties['status-code'] = 200;
+                if (!txnId) {
+                    settle();
+                    response.application_properties.statusCode = 200;
+                    response.application_properties['status-code'] = 200;
+                } else if (this.broker.enlistInTransaction(txnId, settle)) {
+                    response.application_properties.statusCode = 200;
+                    response.application_properties['status-code'] = 200;
+                } else {
+                    response.application_properties.statusCode = 404;
+                    response.application_properties['status-code'] = 404;
+                    response.application_properties['status-description'] = 'Unknown transaction';
+                }
+            } else if (operation === 'com.microsoft:renew-lock') {
+                const lockTokenBuffers: any[] = msg.body?.['lock-tokens'] ?? [];
+                const linkName = msg.application_properties?.['associated-link-name'];
+                const queue = this.broker.getMessages(entityPath);
+                const lockedUntil = new Date(Date.now() + MOCK_LOCK_DURATION_MS);
+
+                // Link deliveries leave the mock queue, so locks taken over a link are always renewable
+                const lost = lockTokenBuffers.some((ltBuf: any) => {
+                    const ltArray = ltBuf instanceof Uint8Array ? Array.from(ltBuf) : (ltBuf.data ?? []);
+                    const m = queue.find(m =>
+                        m._lockToken && JSON.stringify(Array.from(m._lockToken)) === JSON.stringify(ltArray)
+                    );
+                    if (m) m._lockedUntil = lockedUntil;
+                    return !m && !linkName;
+                });
+
+                if (lost) {
+                    response.application_properties.statusCode = 410;
+                    response.application_properties['status-code'] = 410;
+                    response.application_properties['status-description'] = 'The lock supplied is invalid';
+                } else {
+                    this.broker.log(`RENEW_LOCK (${entityPath}) x${lockTokenBuffers.length}`);
+                    response.body = { expirations: lockTokenBuffers.map(() => lockedUntil) };
+                    response.application_properties.statusCode = 200;
+                    response.application_properties['status-code'] = 200;
+                }
+
             } else if (operation === 'com.microsoft:purge-messages') {
                 // Purge all (or N) messages from the entity
                 const rawCount = msg.body?.['message-count'];
@@ -444,7 +587,7 @@ class MockConnection extends EventEmitter {
 class MockSender extends EventEmitter {
     public id = _nextId++;
     public target = { address: '' };
-    constructor(private broker: MockBroker, public address: string, public connection: MockConnection) {
+    constructor(private broker: MockBroker, public address: string, public connection: MockConnection, private isCoordinator = false, private destination?: string) {
         super();
         this.target.address = address;
         setTimeout(() => this.emit('sender_open', { sender: this }), 1);
@@ -453,16 +596,48 @@ class MockSender extends EventEmitter {
     public isClosed() { return false; }
     public sendable() { return true; }
     public send(msg: any) {
-        this.broker.log(`SEND (to: ${this.address})`);
+        this.broker.log(this.destination ? `SEND (to: ${this.destination}, via: ${this.address})` : `SEND (to: ${this.address})`);
+        const destination = this.destination ?? this.address;
+        const d: any = new EventEmitter();
+
+        // Like rhea, the transfer goes out after send() returns - a transaction can still tag the delivery
+        queueMicrotask(() => {
+            if (this.isCoordinator) {
+                this.handleCoordinatorMessage(msg, d);
+                return;
+            }
 
-        if (this.address.includes('$management') || this.address === '$cbs') {
-            this.connection.handleSystemMessage(msg, this.address);
+            const txnId = transactionIdOf(d);
+            if (this.address.includes('$management') || this.address === '$cbs') {
+                this.connection.handleSystemMessage(msg, this.address, txnId);
+            } else if (!txnId) {
+                this.broker.pushMessage(destination, msg);
+            } else if (!this.broker.enlistInTransaction(txnId, () => this.broker.pushMessage(destination, msg))) {
+                d.remote_state = { error: { condition: 'amqp:transaction:unknown-id', description: 'Unknown transaction' } };
+                setTimeout(() => this.emit('rejected', { delivery: d }), 1);
+                return;
+            }
+            setTimeout(() => this.emit('accepted', { delivery: d }), 1);
+        });
+        return d;
+    }
+    private handleCoordinatorMessage(msg: any, d: any) {
+        const body = plainValue(msg.body);
+        if (!Array.isArray(body) || body.length === 0) {
+            // Declare - answered with the declared outcome, which rhea only reports as 'settled'
+            d.remote_state = { descriptor: { value: DECLARED_DESCRIPTOR }, value: [this.broker.declareTransaction()] };
+            setTimeout(() => this.emit('settled', { delivery: d }), 1);
+            return;
+        }
+
+        // Discharge: [txn-id, fail]
+        const [txnId, fail] = body;
+        if (txnId instanceof Uint8Array && this.broker.dischargeTransaction(txnId, fail === true)) {
+            setTimeout(() => this.emit('accepted', { delivery: d }), 1);
         } else {
-            this.broker.pushMessage(this.address, msg);
+            d.remote_state = { error: { condition: 'amqp:transaction:unknown-id', description: 'Unknown transaction' } };
+            setTimeout(() => this.emit('rejected', { delivery: d }), 1);
         }
-        const d = new EventEmitter();
-        setTimeout(() => this.emit('accepted', { delivery: d }), 1);
-        return d;
     }
     public close() {
         this.emit('sender_close', { sender: this });
@@ -471,6 +646,7 @@ class MockSender extends EventEmitter {
 
 class MockReceiver extends EventEmitter {
     public id = _nextId++;
+    public name = `mock-receiver-${this.id}`;
     public source = { address: '' };
     public credit = 0;
     constructor(private broker: MockBroker, public address: string, public connection: MockConnection) {
@@ -490,11 +666,14 @@ class MockReceiver extends EventEmitter {
         const queueToCheck = this.broker.normalizePath(targetAddress || this.address);
         const queue = this.broker.getMessages(queueToCheck);
 
-        while (queue.length > 0 && this.credit > 0) {
-            const m = queue.shift();
+        while (this.credit > 0) {
+            // Deferred messages are never delivered over a receiver link
+            const nextIdx = queue.findIndex(msg => !msg._deferred);
+            if (nextIdx === -1) break;
+            const [m] = queue.splice(nextIdx, 1);
             console.log(`[Receiver ${this.id}] Delivering from ${queueToCheck} (listening on ${this.address})`);
             const d = {
-                tag: new Uint8Array([Math.floor(Math.random() * 255)]),
+                tag: new Uint8Array(Array.from({ length: 16 }, () => Math.floor(Math.random() * 256))),
                 settled: true,
                 accept: () => { this.broker.log(`SETTLEMENT_ACCEPT (${this.address})`); },
                 release: () => {
@@ -502,11 +681,14 @@ class MockReceiver extends EventEmitter {
                     const q = this.broker.getMessages(this.address);
                     q.unshift(m); // Put back at front of queue
                 },
-                modify: (options: any) => {
+                modified: (options: any) => {
                     this.broker.log(`SETTLEMENT_MODIFY (${this.address})`);
                     const q = this.broker.getMessages(this.address);
                     if (options?.undeliverable_here) {
-                        this.broker.pushMessage(`${this.address}/$deadletterqueue`, m);
+                        // Service Bus defer: back in the entity, at its sequence position
+                        this.broker.deferMessage(m);
+                        const insertAt = q.findIndex(msg => (msg._sequenceNumber ?? 0) > (m._sequenceNumber ?? 0));
+                        q.splice(insertAt === -1 ? q.length : insertAt, 0, m);
                     } else {
                         q.unshift(m); // Put back at front
                     }
@@ -518,7 +700,7 @@ class MockReceiver extends EventEmitter {
                     }
                 }
             };
-            this.emit('message', { message: m, delivery: d, receiver: this, connection: this.connection, session: this.connection.session });
+            this.emit('message', { message: { ...m, body: toDeliveredBody(m.body) }, delivery: d, receiver: this, connection: this.connection, session: this.connection.session });
             const isSystem = queueToCheck.includes('$') || queueToCheck.includes('reply');
             if (!isSystem) this.credit--;
         }
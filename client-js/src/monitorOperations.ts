@@ -1,7 +1,40 @@
 import { ServiceBusConnection } from './connection.js';
 import { ManagementClient } from './managementClient.js';
-import { parseServiceBusMessage } from './messageParser.js';
-import type { MessageCallback, ErrorCallback, MonitorController } from './types.js';
+import { acquireManagementClient } from './connectionPool.js';
+import type { ManagementClientLease } from './connectionPool.js';
+import { findLastSequenceNumber, peekBatch } from './browseOperations.js';
+import { compileSearchQuery } from './searchQuery.js';
+import type { SearchPredicate } from './searchQuery.js';
+import type {
+    MessageCallback,
+    ErrorCallback,
+    MonitorController,
+    MonitorEvent,
+    MonitorEventCallback,
+    MonitorOptions,
+    EntityMonitorController,
+    EntitySample,
+    MonitorFilter,
+    ServiceBusMessage,
+    DeadLetterWatchOptions,
+    DeadLetterGroup,
+    DeadLetterAlertCallback,
+    DeadLetterWatchController,
+    TokenProvider
+} from './types.js';
+
+// Poll interval bounds of monitorEntities - busy entities at the minimum, idle ones back off to the maximum
+const DEFAULT_MIN_POLL_INTERVAL_MS = 200;
+const DEFAULT_MAX_POLL_INTERVAL_MS = 5000;
+const MONITOR_BATCH_SIZE = 50;
+const DEFAULT_SAMPLE_INTERVAL_MS = 10000;
+// Every sample re-peeks the window from the head, so keep it to one peek per entity by default
+const DEFAULT_WINDOW_SIZE = 100;
+const WINDOW_BATCH_SIZE = 250;
+const DEFAULT_BURST_THRESHOLD = 10;
+const DEFAULT_BURST_WINDOW_MS = 60 * 1000;
+const DEFAULT_MAX_DEAD_LETTER_SAMPLES = 5;
+const DEFAULT_MAX_DEAD_LETTER_GROUPS = 500;
 
 /**
  * Start monitoring messages from a queue (non-destructive, continuous)
@@ -12,9 +45,11 @@ export async function monitorQueue(
     token: string,
     onMessage: MessageCallback,
     onError?: ErrorCallback,
-    dotnetRef?: any
+    dotnetRef?: any,
+    onEvent?: MonitorEventCallback,
+    options: MonitorOptions = {}
 ): Promise<MonitorController> {
-    return await startMonitoring(namespace, queueName, token, onMessage, onError, dotnetRef);
+    return await startMonitoring(namespace, queueName, token, onMessage, onError, dotnetRef, onEvent, options);
 }
 
 /**
@@ -27,10 +62,375 @@ export async function monitorSubscription(
     token: string,
     onMessage: MessageCallback,
     onError?: ErrorCallback,
-    dotnetRef?: any
+    dotnetRef?: any,
+    onEvent?: MonitorEventCallback,
+    options: MonitorOptions = {}
 ): Promise<MonitorController> {
     const entityPath = `${topicName}/subscriptions/${subscriptionName}`;
-    return await startMonitoring(namespace, entityPath, token, onMessage, onError, dotnetRef);
+    return await startMonitoring(namespace, entityPath, token, onMessage, onError, dotnetRef, onEvent, options);
+}
+
+/**
+ * Monitor many queues, subscriptions and DLQs at once (non-destructive, continuous).
+ * All entities share one pooled connection and one scheduler; every event carries its entity path.
+ * @param entityPaths - e.g. "orders", "orders/$DeadLetterQueue", "events/subscriptions/audit"
+ */
+export async function monitorEntities(
+    namespace: string,
+    entityPaths: string[],
+    token: string,
+    onEvent: MonitorEventCallback,
+    onError?: ErrorCallback,
+    options: MonitorOptions = {},
+    dotnetRef?: any
+): Promise<EntityMonitorController> {
+    const paths = [...new Set(entityPaths.flatMap(path =>
+        options.includeDeadLetter && !path.endsWith('/$DeadLetterQueue') ? [path, `${path}/$DeadLetterQueue`] : [path]
+    ))];
+    if (paths.length === 0) {
+        throw new Error('Monitor failed: no entities given');
+    }
+    const matches = compileFilterOrThrow(options.filter);
+
+    const minInterval = options.minIntervalMs ?? DEFAULT_MIN_POLL_INTERVAL_MS;
+    const maxInterval = Math.max(minInterval, options.maxIntervalMs ?? DEFAULT_MAX_POLL_INTERVAL_MS);
+    const sampleInterval = options.sampleIntervalMs ?? DEFAULT_SAMPLE_INTERVAL_MS;
+    const tokenProvider = dotnetTokenProvider(dotnetRef);
+    let isRunning = true;
+    let timer: ReturnType<typeof setTimeout> | null = null;
+
+    const entities: MonitoredEntity[] = paths.map(entityPath => ({
+        entityPath,
+        lease: null,
+        positioned: false,
+        lastSequenceNumber: 0,
+        intervalMs: minInterval,
+        nextPollAt: 0,
+        window: sampleInterval > 0 ? new VisibleWindow(options.windowSize ?? DEFAULT_WINDOW_SIZE) : null,
+        nextSampleAt: 0,
+        filteredOutCount: 0,
+        error: undefined
+    }));
+
+    const release = (entity: MonitoredEntity, discard: boolean = false) => {
+        entity.lease?.release(discard);
+        entity.lease = null;
+    };
+
+    // A throwing callback must not fail the poll - the position has already moved past the message
+    const emit = (event: MonitorEvent) => {
+        try {
+            onEvent(event);
+        } catch (err) {
+            console.error(`[ServiceBusAPI] Monitor event callback failed for ${event.entityPath}:`, err);
+        }
+    };
+
+    const poll = async (entity: MonitoredEntity) => {
+        try {
+            if (!entity.lease) {
+                // Every entity shares the pooled connection for this token; it refreshes the token itself
+                entity.lease = await acquireManagementClient(namespace, token, entity.entityPath);
+                if (tokenProvider) {
+                    entity.lease.connection.setTokenProvider(tokenProvider);
+                }
+            }
+
+            if (!entity.positioned) {
+                entity.lastSequenceNumber = await findStartPosition(entity.lease.client, entity.entityPath, options);
+                entity.positioned = true;
+            } else {
+                const messages = await peekBatch(entity.lease.client, entity.lastSequenceNumber + 1, MONITOR_BATCH_SIZE);
+                for (const message of messages) {
+                    entity.lastSequenceNumber = message.sequenceNumber!;
+                    if (matches && !matches(message)) {
+                        entity.filteredOutCount++;
+                    } else if (isRunning) {
+                        emit({ type: 'message', entityPath: entity.entityPath, message });
+                    }
+                }
+                // Busy entities are polled again soon, idle ones less and less often
+                entity.intervalMs = messages.length > 0 ? minInterval : Math.min(maxInterval, entity.intervalMs * 2);
+            }
+
+            if (entity.window && Date.now() >= entity.nextSampleAt) {
+                const { removed, sample } = await entity.window.sample(entity.lease.client, entity.lastSequenceNumber);
+                entity.nextSampleAt = Date.now() + sampleInterval;
+                if (isRunning) {
+                    if (removed.length > 0) {
+                        emit({ type: 'removed', entityPath: entity.entityPath, sequenceNumbers: removed });
+                    }
+                    emit({ type: 'sample', entityPath: entity.entityPath, sample });
+                }
+            }
+            entity.error = undefined;
+        } catch (err) {
+            console.error(`[ServiceBusAPI] Monitor poll error for ${entity.entityPath}, will reconnect:`, err);
+            release(entity, true);
+            entity.error = (err as Error).message;
+            // Retry at the idle rate; the position is kept, so nothing is skipped or repeated
+            entity.intervalMs = maxInterval;
+            if (onError && isRunning) {
+                onError(new Error(`${entity.entityPath}: ${entity.error}`));
+            }
+        }
+
+        if (!isRunning) {
+            release(entity);
+        }
+        entity.nextPollAt = Date.now() + entity.intervalMs;
+    };
+
+    // One timer for every entity, set to the earliest next poll
+    const schedule = () => {
+        if (!isRunning) return;
+        const nextPollAt = Math.min(...entities.map(entity => entity.nextPollAt));
+        timer = setTimeout(tick, Math.max(0, nextPollAt - Date.now()));
+    };
+
+    const tick = async () => {
+        timer = null;
+        if (!isRunning) return;
+        const now = Date.now();
+        await Promise.all(entities.filter(entity => entity.nextPollAt <= now).map(poll));
+        schedule();
+    };
+
+    // Position every entity at its tail before reporting anything
+    await Promise.all(entities.map(poll));
+    if (entities.every(entity => !entity.positioned)) {
+        isRunning = false;
+        entities.forEach(entity => release(entity));
+        throw new Error(`Monitor failed: ${entities[0].error}`);
+    }
+    schedule();
+
+    return {
+        stop: () => {
+            isRunning = false;
+            if (timer) {
+                clearTimeout(timer);
+                timer = null;
+            }
+            entities.forEach(entity => release(entity));
+        },
+        getFilteredOutCount: () => entities.reduce((sum, entity) => sum + entity.filteredOutCount, 0),
+        getPosition: () => Object.fromEntries(entities.map(entity => [entity.entityPath, entity.lastSequenceNumber])),
+        getStatus: () => entities.map(entity => ({
+            entityPath: entity.entityPath,
+            lastSequenceNumber: entity.lastSequenceNumber,
+            intervalMs: entity.intervalMs,
+            filteredOutCount: entity.filteredOutCount,
+            ...(entity.error ? { error: entity.error } : {})
+        }))
+    };
+}
+
+/**
+ * Watch dead letter queues and raise alerts grouped by DeadLetterReason, DeadLetterErrorDescription and subject.
+ * A group alerts on its first arrival and again whenever it crosses the burst threshold.
+ * @param entityPaths - Queues or subscriptions (their DLQ is watched) or DLQ paths
+ */
+export async function watchDeadLetters(
+    namespace: string,
+    entityPaths: string[],
+    token: string,
+    onAlert: DeadLetterAlertCallback,
+    onError?: ErrorCallback,
+    options: DeadLetterWatchOptions = {},
+    dotnetRef?: any
+): Promise<DeadLetterWatchController> {
+    const deadLetterPaths = entityPaths.map(path => path.endsWith('/$DeadLetterQueue') ? path : `${path}/$DeadLetterQueue`);
+    const burstThreshold = Math.max(1, options.burstThreshold ?? DEFAULT_BURST_THRESHOLD);
+    const burstWindow = options.burstWindowMs ?? DEFAULT_BURST_WINDOW_MS;
+    const cooldown = options.alertCooldownMs ?? burstWindow;
+    const maxSamples = options.maxSamples ?? DEFAULT_MAX_DEAD_LETTER_SAMPLES;
+    const maxGroups = Math.max(1, options.maxGroups ?? DEFAULT_MAX_DEAD_LETTER_GROUPS);
+
+    // In least recently seen order - a group is moved to the end on every arrival
+    const groups = new Map<string, { group: DeadLetterGroup; arrivals: number[]; lastBurstAt: number }>();
+
+    const snapshot = (group: DeadLetterGroup): DeadLetterGroup => ({ ...group, samples: [...group.samples] });
+
+    const onDeadLetter = (entityPath: string, message: ServiceBusMessage) => {
+        const now = Date.now();
+        const reason = readProperty(message, 'DeadLetterReason');
+        const description = readProperty(message, 'DeadLetterErrorDescription');
+        const errorDescription = description === undefined ? undefined : normalizeErrorDescription(description);
+        const key = JSON.stringify([entityPath, reason ?? null, errorDescription ?? null, message.subject ?? null]);
+
+        let state = groups.get(key);
+        const isNew = !state;
+        if (!state) {
+            state = {
+                group: {
+                    entityPath,
+                    reason,
+                    errorDescription,
+                    subject: message.subject,
+                    count: 0,
+                    firstSeen: new Date(now).toISOString(),
+                    lastSeen: new Date(now).toISOString(),
+                    samples: []
+                },
+                arrivals: [],
+                lastBurstAt: Number.NEGATIVE_INFINITY
+            };
+        } else {
+            groups.delete(key);
+        }
+        groups.set(key, state);
+        if (groups.size > maxGroups) {
+            groups.delete(groups.keys().next().value!);
+        }
+
+        const { group } = state;
+        group.count++;
+        group.lastSeen = new Date(now).toISOString();
+        group.samples.push(message);
+        if (group.samples.length > maxSamples) group.samples.shift();
+
+        state.arrivals.push(now);
+        while (state.arrivals.length > 0 && state.arrivals[0] <= now - burstWindow) state.arrivals.shift();
+        const recentCount = state.arrivals.length;
+        const ratePerMinute = recentCount / (burstWindow / 60000);
+
+        if (isNew) {
+            onAlert({ type: 'new-group', group: snapshot(group), recentCount, ratePerMinute });
+        }
+        if (recentCount >= burstThreshold && now - state.lastBurstAt >= cooldown) {
+            state.lastBurstAt = now;
+            onAlert({ type: 'burst', group: snapshot(group), recentCount, ratePerMinute });
+        }
+    };
+
+    const monitor = await monitorEntities(
+        namespace,
+        deadLetterPaths,
+        token,
+        event => {
+            if (event.type === 'message') onDeadLetter(event.entityPath, event.message);
+        },
+        onError,
+        { sampleIntervalMs: 0, ...options },
+        dotnetRef
+    );
+
+    return {
+        stop: monitor.stop,
+        getFilteredOutCount: monitor.getFilteredOutCount,
+        getPosition: monitor.getPosition,
+        getGroups: () => Array.from(groups.values(), state => snapshot(state.group))
+    };
+}
+
+/**
+ * Replace the parts of an error description that differ per message (ids, timestamps, numbers)
+ */
+function normalizeErrorDescription(description: string): string {
+    return description
+        .replace(/[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}/gi, '<id>')
+        .replace(/\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?/g, '<time>')
+        .replace(/\b(?=[0-9a-f]*\d)[0-9a-f]{16,}\b/gi, '<id>')
+        .replace(/\d+/g, '<n>');
+}
+
+function readProperty(message: ServiceBusMessage, name: string): string | undefined {
+    const value = message.applicationProperties?.[name];
+    return value === undefined || value === null ? undefined : String(value);
+}
+
+interface MonitoredEntity {
+    entityPath: string;
+    lease: ManagementClientLease | null;
+    positioned: boolean;
+    lastSequenceNumber: number;
+    intervalMs: number;
+    nextPollAt: number;
+    window: VisibleWindow | null;
+    nextSampleAt: number;
+    filteredOutCount: number;
+    error: string | undefined;
+}
+
+/**
+ * Visible sequence numbers at the head of an entity, compared sample to sample to spot
+ * removed (consumed, completed or expired) messages and derive depth and rates.
+ * Removals can be anywhere in the window, so each sample re-reads all of it from the head
+ * (size / WINDOW_BATCH_SIZE peeks, rounded up) - there is no tail to refresh incrementally.
+ */
+class VisibleWindow {
+    private readonly size: number;
+    private visible: number[] = [];
+    private previous: { at: number; highestSequenceNumber: number } | null = null;
+
+    constructor(size: number) {
+        this.size = Math.max(1, size);
+    }
+
+    /**
+     * Re-read the window and compare it to the previous sample
+     * @param highestSequenceNumber - Highest sequence number the monitor has seen (for the enqueue rate)
+     */
+    async sample(managementClient: ManagementClient, highestSequenceNumber: number): Promise<{ removed: number[]; sample: EntitySample }> {
+        const now = Date.now();
+        const current: number[] = [];
+        let oldestEnqueuedTime = NaN;
+        let reachedEnd = false;
+        let nextSequenceNumber = 0;
+
+        while (current.length < this.size) {
+            const batch = await peekBatch(managementClient, nextSequenceNumber, Math.min(WINDOW_BATCH_SIZE, this.size - current.length));
+            if (batch.length === 0) {
+                reachedEnd = true;
+                break;
+            }
+            for (const message of batch) {
+                if (current.length === 0 && message.enqueuedTime) {
+                    oldestEnqueuedTime = Date.parse(message.enqueuedTime);
+                }
+                current.push(message.sequenceNumber!);
+            }
+            nextSequenceNumber = current[current.length - 1] + 1;
+        }
+
+        // Past the end of a full window nothing is known - messages there may just not have been read
+        const coveredUpTo = reachedEnd ? Number.POSITIVE_INFINITY : current[current.length - 1];
+        const present = new Set(current);
+        const removed = this.visible.filter(seqNum => seqNum <= coveredUpTo && !present.has(seqNum));
+
+        const highest = Math.max(highestSequenceNumber, current[current.length - 1] ?? 0);
+        const elapsedSeconds = this.previous ? (now - this.previous.at) / 1000 : 0;
+        const sample: EntitySample = {
+            timestamp: new Date(now).toISOString(),
+            depth: current.length,
+            depthIsExact: reachedEnd,
+            oldestMessageAgeMs: Number.isNaN(oldestEnqueuedTime) ? null : Math.max(0, now - oldestEnqueuedTime),
+            enqueueRate: this.previous && elapsedSeconds > 0
+                ? Math.max(0, highest - this.previous.highestSequenceNumber) / elapsedSeconds
+                : null,
+            dequeueRate: this.previous && elapsedSeconds > 0 ? removed.length / elapsedSeconds : null
+        };
+
+        this.visible = current;
+        this.previous = { at: now, highestSequenceNumber: highest };
+        return { removed, sample };
+    }
+}
+
+/**
+ * Last sequence number handled before monitoring starts - the true tail unless a start or resume position is given
+ */
+async function findStartPosition(managementClient: ManagementClient, entityPath: string, options: MonitorOptions): Promise<number> {
+    const resumed = options.resumeFrom?.[entityPath];
+    if (typeof resumed === 'number') {
+        return resumed;
+    }
+    const from = options.fromSequenceNumber ?? 'tail';
+    if (from === 'tail') {
+        return await findLastSequenceNumber(managementClient);
+    }
+    return Math.max(0, from - 1);
 }
 
 // Internal implementation - non-destructive monitoring using Management API
@@ -40,17 +440,41 @@ async function startMonitoring(
     token: string,
     onMessage: MessageCallback,
     onError?: ErrorCallback,
-    dotnetRef?: any
+    dotnetRef?: any,
+    onEvent?: MonitorEventCallback,
+    options: MonitorOptions = {}
 ): Promise<MonitorController> {
-    const connection = new ServiceBusConnection(namespace, token);
+    const matches = compileFilterOrThrow(options.filter);
+    const connection = new ServiceBusConnection(namespace, token, dotnetTokenProvider(dotnetRef));
     let isRunning = true;
     let lastSequenceNumber = 0;
     let pollInterval: NodeJS.Timeout | null = null;
     let managementClient: ManagementClient | null = null;
+    let filteredOutCount = 0;
+    const sampleInterval = options.sampleIntervalMs ?? DEFAULT_SAMPLE_INTERVAL_MS;
+    // Removed messages and depth samples are only tracked for callers that take events
+    const visibleWindow = onEvent && sampleInterval > 0 ? new VisibleWindow(options.windowSize ?? DEFAULT_WINDOW_SIZE) : null;
+    let nextSampleAt = 0;
+
+    // A throwing callback must not fail the poll - the position has already moved past the message
+    const emit = (event: MonitorEvent) => {
+        try {
+            onEvent!(event);
+        } catch (err) {
+            console.error(`[ServiceBusAPI] Monitor event callback failed for ${entityPath}:`, err);
+        }
+    };
 
-    // Track token refresh timing
-    let lastAuthTime = Date.now();
-    const tokenRefreshIntervalMs = 20 * 60 * 1000; // Refresh every 20 minutes
+    const sampleIfDue = async () => {
+        if (!visibleWindow || !managementClient || Date.now() < nextSampleAt) return;
+        const { removed, sample } = await visibleWindow.sample(managementClient, lastSequenceNumber);
+        nextSampleAt = Date.now() + sampleInterval;
+        if (!isRunning) return;
+        if (removed.length > 0) {
+            emit({ type: 'removed', entityPath, sequenceNumbers: removed });
+        }
+        emit({ type: 'sample', entityPath, sample });
+    };
 
     const setupManagementLink = async (): Promise<ManagementClient> => {
         await connection.connect();
@@ -64,42 +488,31 @@ async function startMonitoring(
         if (!isRunning) return;
 
         try {
-            // Check if token needs refresh
-            if (dotnetRef && Date.now() - lastAuthTime > tokenRefreshIntervalMs) {
-                console.log('[ServiceBusAPI] Refreshing CBS token for monitor...');
-                try {
-                    const newToken = await dotnetRef.invokeMethodAsync('GetFreshToken');
-                    if (newToken) {
-                        connection.token = newToken;
-                        await connection.authenticateCBS(entityPath);
-                        lastAuthTime = Date.now();
-                        console.log('[ServiceBusAPI] CBS token refreshed successfully.');
-                    }
-                } catch (refreshErr) {
-                    console.error('[ServiceBusAPI] Failed to refresh monitor token:', refreshErr);
-                }
-            }
-
             // Ensure connection and managementClient are open
             if (!connection.connection || !managementClient) {
                 managementClient = await setupManagementLink();
             }
 
             // Peek messages starting from the last sequence number + 1
-            // Fetch up to 50 messages to handle higher throughput
-            const messages = await managementClient!.peekMessages(lastSequenceNumber + 1, 50);
+            const messages = await peekBatch(managementClient!, lastSequenceNumber + 1, MONITOR_BATCH_SIZE);
 
             // Process any new messages
             for (const message of messages) {
-                if (message.message_annotations?.['x-opt-sequence-number']) {
-                    const seqNum = message.message_annotations['x-opt-sequence-number'];
-                    if (seqNum > lastSequenceNumber) {
-                        lastSequenceNumber = seqNum;
-                        onMessage(parseServiceBusMessage(message));
+                lastSequenceNumber = message.sequenceNumber!;
+                // Filtered out here so non-matching messages never reach the (interop) callback
+                if (matches && !matches(message)) {
+                    filteredOutCount++;
+                } else {
+                    try {
+                        onMessage(message);
+                    } catch (err) {
+                        console.error(`[ServiceBusAPI] Monitor message callback failed for ${entityPath}:`, err);
                     }
                 }
             }
 
+            await sampleIfDue();
+
             // Schedule next poll if still running (faster polling for better responsiveness)
             if (isRunning) {
                 pollInterval = setTimeout(pollForMessages, messages.length > 0 ? 200 : 2000);
@@ -128,19 +541,9 @@ async function startMonitoring(
     try {
         managementClient = await setupManagementLink();
 
-        // Get initial sequence number to start from (try to get the latest message)
-        const initialMessages = await managementClient!.peekMessages(0, 100);
-        if (initialMessages.length > 0) {
-            // Find the highest sequence number
-            for (const msg of initialMessages) {
-                if (msg.message_annotations?.['x-opt-sequence-number']) {
-                    const seqNum = msg.message_annotations['x-opt-sequence-number'];
-                    if (seqNum > lastSequenceNumber) {
-                        lastSequenceNumber = seqNum;
-                    }
-                }
-            }
-        }
+        // Start from the tail, or the requested position
+        lastSequenceNumber = await findStartPosition(managementClient, entityPath, options);
+        await sampleIfDue();
 
         // Start polling loop
         pollInterval = setTimeout(pollForMessages, 100);
@@ -166,6 +569,65 @@ async function startMonitoring(
                 try { managementClient.close(); } catch {}
             }
             connection.close();
-        }
+        },
+        getFilteredOutCount: () => filteredOutCount,
+        getPosition: () => ({ [entityPath]: lastSequenceNumber })
     };
 }
+
+/**
+ * Token provider backed by the .NET reference Blazor callers hand over (it can mint fresh tokens)
+ */
+function dotnetTokenProvider(dotnetRef: any): TokenProvider | undefined {
+    return dotnetRef ? () => dotnetRef.invokeMethodAsync('GetFreshToken') : undefined;
+}
+
+/**
+ * Compile a monitor filter into one predicate (null when there is nothing to filter on)
+ */
+function compileMonitorFilter(filter: MonitorFilter | undefined): SearchPredicate | null {
+    if (!filter) return null;
+    const conditions: SearchPredicate[] = [];
+
+    if (filter.subject) {
+        const subject = filter.subject.toLowerCase();
+        conditions.push(msg => msg.subject?.toLowerCase().includes(subject) ?? false);
+    }
+    for (const [name, expected] of Object.entries(filter.applicationProperties ?? {})) {
+        conditions.push(msg => {
+            const actual = msg.applicationProperties?.[name];
+            // AMQP numbers and strings compare by value
+            return actual !== undefined && actual !== null && String(actual) === String(expected);
+        });
+    }
+    if (filter.bodyContains) {
+        const text = filter.bodyContains.toLowerCase();
+        conditions.push(msg => msg.body?.toLowerCase().includes(text) ?? false);
+    }
+    if (filter.bodyPattern) {
+        const literal = /^\/(.*)\/([a-z]*)$/s.exec(filter.bodyPattern);
+        let pattern: RegExp;
+        try {
+            pattern = literal ? new RegExp(literal[1], literal[2]) : new RegExp(filter.bodyPattern);
+        } catch (err) {
+            throw new Error(`Invalid body pattern: ${(err as Error).message}`);
+        }
+        conditions.push(msg => {
+            pattern.lastIndex = 0;
+            return pattern.test(msg.body ?? '');
+        });
+    }
+    if (filter.query?.trim()) {
+        conditions.push(compileSearchQuery(filter.query));
+    }
+
+    return conditions.length > 0 ? msg => conditions.every(condition => condition(msg)) : null;
+}
+
+function compileFilterOrThrow(filter: MonitorFilter | undefined): SearchPredicate | null {
+    try {
+        return compileMonitorFilter(filter);
+    } catch (err) {
+        throw new Error(`Monitor failed: ${(err as Error).message}`);
+    }
+}
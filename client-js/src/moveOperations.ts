@@ -0,0 +1,146 @@
+import { MessageSender } from './messageSender.js';
+import { acquireConnection, acquireManagementClient } from './connectionPool.js';
+import type { ConnectionLease, ManagementClientLease } from './connectionPool.js';
+import { rebuildAmqpMessage } from './sendOperations.js';
+import type { MoveSource, MoveDestination, MoveResult, MoveStatus, MoveOptions, LockedMessage } from './types.js';
+
+// Messages locked per round - small enough to send and complete well within the lock duration
+const MOVE_CHUNK_SIZE = 50;
+
+/**
+ * Move messages by sequence number from a queue/subscription (or its DLQ) to a queue or topic.
+ * Each message is locked, a faithful copy is sent, and the original is completed only after the
+ * destination accepted the copy (at-least-once: a failure can leave a duplicate, never a loss).
+ * A failed send abandons the original, which raises its delivery count (see MoveStatus 'send-failed').
+ * Works across namespaces - source and destination carry their own namespace and token.
+ * With options.transactional the send and the completion commit together (same namespace and token only);
+ * the copy is sent via the source entity, as Service Bus scopes a transaction to one entity.
+ */
+export async function moveMessagesBySequence(
+    source: MoveSource,
+    destination: MoveDestination,
+    sequenceNumbers: number[],
+    options: MoveOptions = {}
+): Promise<MoveResult> {
+    const sourcePath = getSourcePath(source);
+    const destinationPath = getDestinationPath(destination);
+    console.log(`[ServiceBusAPI] Moving ${sequenceNumbers.length} messages from ${sourcePath} to ${destinationPath}`);
+
+    const result: MoveResult = {
+        successCount: 0,
+        failureCount: 0,
+        errors: [],
+        results: []
+    };
+
+    const record = (sequenceNumber: number, status: MoveStatus, messageId?: string, error?: string) => {
+        result.results.push({ sequenceNumber, messageId, status, ...(error ? { error } : {}) });
+        if (status === 'moved') {
+            result.successCount++;
+        } else {
+            result.failureCount++;
+            result.errors.push({ messageId: messageId ?? String(sequenceNumber), error: error ?? status });
+        }
+    };
+
+    let sourceLease: ManagementClientLease | null = null;
+    let destinationLease: ConnectionLease | null = null;
+    let sender: MessageSender | null = null;
+
+    try {
+        sourceLease = await acquireManagementClient(source.namespace, source.token, sourcePath);
+        destinationLease = await acquireConnection(destination.namespace, destination.token, destinationPath);
+        if (options.transactional && destinationLease.connection !== sourceLease.connection) {
+            throw new Error('A transactional move needs source and destination in the same namespace, with the same token');
+        }
+
+        // A transaction covers one entity, so the transactional copy is sent via the source
+        sender = new MessageSender(destinationLease.connection, destinationPath, options.transactional ? sourcePath : undefined);
+        await sender.open();
+
+        for (let i = 0; i < sequenceNumbers.length; i += MOVE_CHUNK_SIZE) {
+            const chunk = sequenceNumbers.slice(i, i + MOVE_CHUNK_SIZE);
+            const locked = await sourceLease.client.lockBySequenceNumbers(chunk);
+            const lockedBySequence = new Map<number, LockedMessage>();
+            for (const message of locked) {
+                if (message.sequenceNumber !== undefined) {
+                    lockedBySequence.set(message.sequenceNumber, message);
+                }
+            }
+
+            for (const sequenceNumber of chunk) {
+                const message = lockedBySequence.get(sequenceNumber);
+                if (!message) {
+                    record(sequenceNumber, 'not-found', undefined, 'Message not found');
+                    continue;
+                }
+
+                if (options.transactional) {
+                    const transaction = await sourceLease.connection.beginTransaction();
+                    try {
+                        await sender.sendAmqpMessage(rebuildAmqpMessage(message, options), transaction);
+                        await sourceLease.client.updateDisposition([message.lockToken], 'completed', undefined, undefined, transaction);
+                        await transaction.commit();
+                        record(sequenceNumber, 'moved', message.messageId);
+                    } catch (err) {
+                        if (transaction.isActive()) {
+                            await transaction.rollback().catch(() => { });
+                        }
+                        // The original is still locked unless the commit applied - give it back
+                        await sourceLease.client.updateDisposition([message.lockToken], 'abandoned').catch(() => { });
+                        const status = transaction.isIndeterminate() ? 'indeterminate' : 'rolled-back';
+                        record(sequenceNumber, status, message.messageId, (err as Error).message);
+                    }
+                    continue;
+                }
+
+                try {
+                    await sender.sendAmqpMessage(rebuildAmqpMessage(message, options));
+                } catch (err) {
+                    // Give the original back so it is not stuck until the lock expires - either way its delivery count goes up
+                    await sourceLease.client.updateDisposition([message.lockToken], 'abandoned').catch(() => { });
+                    record(sequenceNumber, 'send-failed', message.messageId, (err as Error).message);
+                    continue;
+                }
+
+                try {
+                    await sourceLease.client.updateDisposition([message.lockToken], 'completed');
+                    record(sequenceNumber, 'moved', message.messageId);
+                } catch (err) {
+                    record(sequenceNumber, 'complete-failed', message.messageId, (err as Error).message);
+                }
+            }
+        }
+
+        sender.close();
+        destinationLease.release();
+        sourceLease.release();
+    } catch (err) {
+        sender?.close();
+        destinationLease?.release();
+        sourceLease?.release(true);
+        throw new Error(`Move by sequence failed: ${(err as Error).message}`);
+    }
+
+    return result;
+}
+
+function getSourcePath(source: MoveSource): string {
+    let basePath: string;
+    if (source.queueName) {
+        basePath = source.queueName;
+    } else if (source.topicName && source.subscriptionName) {
+        basePath = `${source.topicName}/subscriptions/${source.subscriptionName}`;
+    } else {
+        throw new Error('Move source needs a queueName, or a topicName and subscriptionName');
+    }
+    return source.fromDeadLetter ? `${basePath}/$DeadLetterQueue` : basePath;
+}
+
+function getDestinationPath(destination: MoveDestination): string {
+    const path = destination.queueName ?? destination.topicName;
+    if (!path) {
+        throw new Error('Move destination needs a queueName or topicName');
+    }
+    return path;
+}
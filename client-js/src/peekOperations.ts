@@ -1,12 +1,19 @@
 import rhea from 'rhea';
 import { ServiceBusConnection } from './connection.js';
-import { ManagementClient } from './managementClient.js';
+import { ManagementClient, lockTokenFromDeliveryTag } from './managementClient.js';
+import { acquireManagementClient } from './connectionPool.js';
+import type { ManagementClientLease } from './connectionPool.js';
 import { parseServiceBusMessage } from './messageParser.js';
+import type { Transaction } from './transaction.js';
 import type {
     ServiceBusMessage,
     LockedMessage,
     DeadLetterOptions,
-    BatchOperationResult
+    BatchOperationResult,
+    RenewLockResult,
+    LockRenewalOptions,
+    LockRenewalController,
+    PeekBySequenceResult
 } from './types.js';
 import { formatAmqpError } from './types.js';
 
@@ -22,6 +29,19 @@ const messageHandles = new Map<string, {
     token?: string;
 }>();
 
+// Renew locks this long before they run out
+const LOCK_RENEWAL_MARGIN_MS = 10 * 1000;
+const LOCK_RENEWAL_RETRY_MS = 5 * 1000;
+const DEFAULT_MAX_LOCK_RENEWAL_MS = 5 * 60 * 1000;
+
+// Sequence numbers this close are peeked in one range (the messages between are dropped)
+const MAX_SEQUENCE_GAP = 20;
+const MAX_SEQUENCE_RANGE = 250;
+const SEQUENCE_RANGE_CONCURRENCY = 8;
+
+// Link locks live on a dedicated connection, which a transaction from the pool can never span
+const TRANSACTIONAL_LINK_LOCK_ERROR = 'Transactions only cover messages locked by sequence number (receiveDeferred), not receiveAndLock deliveries';
+
 /**
  * Peek messages from a queue (read-only, no side effects)
  * @param fromDeadLetter - If true, peeks from the dead letter queue
@@ -67,24 +87,19 @@ async function peekMessages(
     fromSequence: number = 0,
     sessionId?: string
 ): Promise<ServiceBusMessage[]> {
-    const connection = new ServiceBusConnection(namespace, token);
+    let lease: ManagementClientLease | null = null;
 
     try {
-        await connection.connect();
-        await connection.authenticateCBS(entityPath);
-
-        const managementClient = new ManagementClient(connection, entityPath);
-        await managementClient.open();
+        lease = await acquireManagementClient(namespace, token, entityPath);
 
-        const messages = await managementClient.peekMessages(fromSequence, count, sessionId);
+        const messages = await lease.client.peekMessages(fromSequence, count, sessionId);
 
-        managementClient.close();
-        connection.close();
+        lease.release();
 
         // Parse messages
         return messages.map(msg => parseServiceBusMessage(msg));
     } catch (err) {
-        connection.close();
+        lease?.release(true);
         throw new Error(`Peek failed: ${(err as Error).message}`);
     }
 }
@@ -217,7 +232,8 @@ async function _receiveAndLockMessagesInternal(
                     messageHandles.set(lockToken, {
                         delivery: context.delivery,
                         receiver: receiver,
-                        connection: connection
+                        connection: connection,
+                        entityPath: entityPath
                     });
 
                     lockedMsgs.push(parsedMessage);
@@ -268,11 +284,33 @@ async function _receiveAndLockMessagesInternal(
     }
 }
 
+/**
+ * Settle a message locked through the management node (lock token travels in the request)
+ */
+async function settleByManagement(
+    handle: { namespace?: string; entityPath?: string; token?: string },
+    lockToken: string,
+    disposition: 'completed' | 'abandoned' | 'defered' | 'suspended',
+    deadLetterReason?: string,
+    deadLetterDescription?: string,
+    transaction?: Transaction
+): Promise<void> {
+    const lease = await acquireManagementClient(handle.namespace!, handle.token!, handle.entityPath!);
+    try {
+        await lease.client.updateDisposition([lockToken], disposition, deadLetterReason, deadLetterDescription, transaction);
+        lease.release();
+    } catch (err) {
+        lease.release(true);
+        throw err;
+    }
+}
+
 /**
  * Complete (delete) locked messages by lock tokens
  * @param lockTokens - Array of lock tokens from receiveAndLock
+ * @param transaction - Complete inside a transaction (messages locked by sequence number only)
  */
-export async function complete(lockTokens: string[] | string): Promise<BatchOperationResult> {
+export async function complete(lockTokens: string[] | string, transaction?: Transaction): Promise<BatchOperationResult> {
     const tokens = Array.isArray(lockTokens) ? lockTokens : [lockTokens];
     console.log(`[ServiceBusAPI] complete called for ${tokens.length} tokens`);
     const result: BatchOperationResult = {
@@ -293,19 +331,16 @@ export async function complete(lockTokens: string[] | string): Promise<BatchOper
             }
 
             if (handle.isManagementLock) {
-                const connection = new ServiceBusConnection(handle.namespace, handle.token);
-                await connection.connect();
-                await connection.authenticateCBS(handle.entityPath);
-                const managementClient = new ManagementClient(connection, handle.entityPath);
-                await managementClient.open();
-                await managementClient.updateDisposition([lockToken], 'completed');
-                await managementClient.close();
-                await connection.close();
+                await settleByManagement(handle, lockToken, 'completed', undefined, undefined, transaction);
                 messageHandles.delete(lockToken);
                 result.successCount++;
                 continue;
             }
 
+            if (transaction) {
+                throw new Error(TRANSACTIONAL_LINK_LOCK_ERROR);
+            }
+
             // Accept the delivery (complete/delete)
             handle.delivery.accept();
 
@@ -361,14 +396,7 @@ export async function abandon(lockTokens: string[] | string): Promise<BatchOpera
             }
 
             if (handle.isManagementLock) {
-                const connection = new ServiceBusConnection(handle.namespace, handle.token);
-                await connection.connect();
-                await connection.authenticateCBS(handle.entityPath);
-                const managementClient = new ManagementClient(connection, handle.entityPath);
-                await managementClient.open();
-                await managementClient.updateDisposition([lockToken], 'abandoned');
-                await managementClient.close();
-                await connection.close();
+                await settleByManagement(handle, lockToken, 'abandoned');
                 messageHandles.delete(lockToken);
                 result.successCount++;
                 continue;
@@ -405,13 +433,73 @@ export async function abandon(lockTokens: string[] | string): Promise<BatchOpera
     return result;
 }
 
+/**
+ * Defer locked messages by lock tokens - messages stay in the entity but are
+ * only retrievable by sequence number (see receiveDeferredQueueMessages)
+ * @param lockTokens - Array of lock tokens from receiveAndLock
+ */
+export async function defer(lockTokens: string[] | string): Promise<BatchOperationResult> {
+    const tokens = Array.isArray(lockTokens) ? lockTokens : [lockTokens];
+    console.log(`[ServiceBusAPI] defer called for ${tokens.length} tokens`);
+    const result: BatchOperationResult = {
+        successCount: 0,
+        failureCount: 0,
+        errors: []
+    };
+
+    const receiversToClose = new Set<any>();
+    const connectionsToClose = new Set<any>();
+
+    for (const lockToken of tokens) {
+        try {
+            const handle = messageHandles.get(lockToken);
+            if (!handle) {
+                throw new Error('Message not found or lock expired');
+            }
+
+            if (handle.isManagementLock) {
+                await settleByManagement(handle, lockToken, 'defered');
+                messageHandles.delete(lockToken);
+                result.successCount++;
+                continue;
+            }
+
+            // Service Bus maps the modified outcome with undeliverable-here to defer
+            handle.delivery.modified({ undeliverable_here: true, delivery_failed: false });
+
+            receiversToClose.add(handle.receiver);
+            connectionsToClose.add(handle.connection);
+            messageHandles.delete(lockToken);
+
+            result.successCount++;
+        } catch (err) {
+            result.failureCount++;
+            result.errors.push({
+                messageId: lockToken,
+                error: (err as Error).message
+            });
+        }
+    }
+
+    for (const receiver of receiversToClose) {
+        try { receiver.close(); } catch {}
+    }
+    for (const connection of connectionsToClose) {
+        try { connection.close(); } catch {}
+    }
+
+    return result;
+}
+
 /**
  * Dead letter locked messages by lock tokens - moves messages to DLQ
  * @param lockTokens - Array of lock tokens from receiveAndLock
+ * @param transaction - Dead letter inside a transaction (messages locked by sequence number only)
  */
 export async function deadLetter(
     lockTokens: string[] | string,
-    options: DeadLetterOptions = {}
+    options: DeadLetterOptions = {},
+    transaction?: Transaction
 ): Promise<BatchOperationResult> {
     const tokens = Array.isArray(lockTokens) ? lockTokens : [lockTokens];
     console.log(`[ServiceBusAPI] deadLetter called for ${tokens.length} tokens`);
@@ -432,19 +520,16 @@ export async function deadLetter(
             }
 
             if (handle.isManagementLock) {
-                const connection = new ServiceBusConnection(handle.namespace!, handle.token!);
-                await connection.connect();
-                await connection.authenticateCBS(handle.entityPath!);
-                const managementClient = new ManagementClient(connection, handle.entityPath!);
-                await managementClient.open();
-                await managementClient.updateDisposition([lockToken], 'suspended', options.deadLetterReason, options.deadLetterErrorDescription);
-                await managementClient.close();
-                await connection.close();
+                await settleByManagement(handle, lockToken, 'suspended', options.deadLetterReason, options.deadLetterErrorDescription, transaction);
                 messageHandles.delete(lockToken);
                 result.successCount++;
                 continue;
             }
 
+            if (transaction) {
+                throw new Error(TRANSACTIONAL_LINK_LOCK_ERROR);
+            }
+
             // Reject the delivery to move to DLQ with error info
             handle.delivery.reject({
                 condition: 'com.microsoft:dead-letter',
@@ -483,8 +568,185 @@ export async function deadLetter(
     return result;
 }
 
+/**
+ * Renew locks on locked messages by lock tokens - extends lockedUntil
+ * @param lockTokens - Array of lock tokens from receiveAndLock
+ */
+export async function renewLock(lockTokens: string[] | string): Promise<RenewLockResult> {
+    const tokens = Array.isArray(lockTokens) ? lockTokens : [lockTokens];
+    console.log(`[ServiceBusAPI] renewLock called for ${tokens.length} tokens`);
+    const result: RenewLockResult = {
+        successCount: 0,
+        failureCount: 0,
+        errors: [],
+        lockedUntil: {}
+    };
+
+    // Group by lock owner so each receiver link / entity needs a single renew request
+    const groups = new Map<any, { handle: any; lockTokens: string[]; brokerLockTokens: string[] }>();
+
+    for (const lockToken of tokens) {
+        try {
+            const handle = messageHandles.get(lockToken);
+            if (!handle) {
+                throw new Error('Message not found or lock expired');
+            }
+
+            const brokerLockToken = handle.isManagementLock ? lockToken : lockTokenFromDeliveryTag(handle.delivery.tag);
+            if (!brokerLockToken) {
+                throw new Error('Delivery has no renewable lock token');
+            }
+
+            const groupKey = handle.isManagementLock ? `${handle.namespace}|${handle.entityPath}|${handle.token}` : handle.receiver;
+            let group = groups.get(groupKey);
+            if (!group) {
+                group = { handle, lockTokens: [], brokerLockTokens: [] };
+                groups.set(groupKey, group);
+            }
+            group.lockTokens.push(lockToken);
+            group.brokerLockTokens.push(brokerLockToken);
+        } catch (err) {
+            result.failureCount++;
+            result.errors.push({
+                messageId: lockToken,
+                error: (err as Error).message
+            });
+        }
+    }
+
+    for (const group of groups.values()) {
+        try {
+            const expirations = await renewLockGroup(group.handle, group.brokerLockTokens);
+            group.lockTokens.forEach((lockToken, i) => {
+                if (expirations[i]) {
+                    result.lockedUntil[lockToken] = expirations[i].toISOString();
+                    result.successCount++;
+                } else {
+                    result.failureCount++;
+                    result.errors.push({ messageId: lockToken, error: 'No expiration returned for lock token' });
+                }
+            });
+        } catch (err) {
+            for (const lockToken of group.lockTokens) {
+                result.failureCount++;
+                result.errors.push({
+                    messageId: lockToken,
+                    error: (err as Error).message
+                });
+            }
+        }
+    }
+
+    return result;
+}
+
+// Renew one group of locks through the owning receiver's connection or the shared management link
+async function renewLockGroup(handle: any, brokerLockTokens: string[]): Promise<Date[]> {
+    if (handle.isManagementLock) {
+        const lease = await acquireManagementClient(handle.namespace, handle.token, handle.entityPath);
+        try {
+            const expirations = await lease.client.renewLock(brokerLockTokens);
+            lease.release();
+            return expirations;
+        } catch (err) {
+            lease.release(true);
+            throw err;
+        }
+    }
+
+    // Link locks must be renewed on the receiver's own connection, naming the link
+    const managementClient = new ManagementClient(handle.connection, handle.entityPath);
+    try {
+        await managementClient.open();
+        return await managementClient.renewLock(brokerLockTokens, handle.receiver.name);
+    } finally {
+        managementClient.close();
+    }
+}
+
+// The broker answers 410 (MessageLockLost) once a lock has expired or the message was settled elsewhere
+function isLockLost(error: string): boolean {
+    return /\b410\b|MessageLockLost|message-lock-lost/i.test(error);
+}
+
+/**
+ * Keep renewing locks until the messages are settled or maxDurationMs elapses
+ * Transient renewal failures are retried; a token is dropped only when its lock is lost.
+ * @param lockTokens - Array of lock tokens from receiveAndLock
+ */
+export function autoRenewLock(
+    lockTokens: string[] | string,
+    options: LockRenewalOptions = {}
+): LockRenewalController {
+    const tokens = Array.isArray(lockTokens) ? [...lockTokens] : [lockTokens];
+    const deadline = Date.now() + (options.maxDurationMs ?? DEFAULT_MAX_LOCK_RENEWAL_MS);
+    let isRunning = true;
+    let renewTimer: ReturnType<typeof setTimeout> | null = null;
+
+    const stop = () => {
+        isRunning = false;
+        if (renewTimer) {
+            clearTimeout(renewTimer);
+            renewTimer = null;
+        }
+    };
+
+    const renewCycle = async () => {
+        renewTimer = null;
+
+        // Settled messages are removed from messageHandles
+        const active = tokens.filter(t => messageHandles.has(t));
+        if (!isRunning || active.length === 0 || Date.now() >= deadline) {
+            stop();
+            return;
+        }
+
+        let nextRenewal = Date.now() + LOCK_RENEWAL_RETRY_MS;
+        try {
+            const result = await renewLock(active);
+
+            // A lost lock cannot be renewed again; other failures are retried after LOCK_RENEWAL_RETRY_MS
+            const lost = result.errors.filter(e => isLockLost(e.error));
+            for (const failure of lost) {
+                const idx = tokens.indexOf(failure.messageId);
+                if (idx !== -1) tokens.splice(idx, 1);
+            }
+
+            const expirations = Object.values(result.lockedUntil).map(t => new Date(t).getTime());
+            if (expirations.length > 0 && lost.length === result.errors.length) {
+                nextRenewal = Math.min(...expirations) - LOCK_RENEWAL_MARGIN_MS;
+            }
+
+            if (options.onRenewed) {
+                options.onRenewed(result);
+            }
+            if (result.failureCount > 0 && options.onError) {
+                options.onError(new Error(`Lock renewal failed for ${result.failureCount} messages: ${result.errors[0].error}`));
+            }
+        } catch (err) {
+            if (options.onError) {
+                options.onError(err as Error);
+            }
+        }
+
+        if (isRunning) {
+            const delay = Math.min(Math.max(nextRenewal - Date.now(), 1000), Math.max(deadline - Date.now(), 0));
+            renewTimer = setTimeout(renewCycle, delay);
+        }
+    };
+
+    // Renew right away to learn the current lock expiry
+    renewTimer = setTimeout(renewCycle, 0);
+
+    return {
+        stop,
+        isRunning: () => isRunning
+    };
+}
+
 /**
  * Peek specific messages by sequence numbers
+ * Returns the messages found plus the sequence numbers that were not (missingSequenceNumbers).
  */
 export async function peekQueueMessagesBySequence(
     namespace: string,
@@ -492,7 +754,7 @@ export async function peekQueueMessagesBySequence(
     token: string,
     sequenceNumbers: number[],
     fromDeadLetter: boolean = false
-): Promise<ServiceBusMessage[]> {
+): Promise<PeekBySequenceResult> {
     const entityPath = fromDeadLetter ? `${queueName}/$DeadLetterQueue` : queueName;
     return await peekMessagesBySequence(namespace, entityPath, token, sequenceNumbers);
 }
@@ -507,67 +769,144 @@ export async function peekSubscriptionMessagesBySequence(
     token: string,
     sequenceNumbers: number[],
     fromDeadLetter: boolean = false
-): Promise<ServiceBusMessage[]> {
+): Promise<PeekBySequenceResult> {
     const subscriptionPath = `${topicName}/subscriptions/${subscriptionName}`;
     const entityPath = fromDeadLetter ? `${subscriptionPath}/$DeadLetterQueue` : subscriptionPath;
     return await peekMessagesBySequence(namespace, entityPath, token, sequenceNumbers);
 }
 
 /**
- * Internal implementation - peek messages by specific sequence numbers
+ * Internal implementation - peek messages by specific sequence numbers.
+ * Nearby sequence numbers are merged into ranges that are peeked with one request each;
+ * messages in a range that were not asked for are dropped.
  */
 async function peekMessagesBySequence(
     namespace: string,
     entityPath: string,
     token: string,
     sequenceNumbers: number[]
-): Promise<ServiceBusMessage[]> {
-    const connection = new ServiceBusConnection(namespace, token);
+): Promise<PeekBySequenceResult> {
+    let lease: ManagementClientLease | null = null;
 
     try {
-        await connection.connect();
-        await connection.authenticateCBS(entityPath);
+        lease = await acquireManagementClient(namespace, token, entityPath);
+        const managementClient = lease.client;
+
+        const requested = new Set(sequenceNumbers);
+        const found = new Map<number, ServiceBusMessage>();
+        const ranges = toSequenceRanges([...requested]);
+
+        // Peek a few ranges concurrently
+        for (let i = 0; i < ranges.length; i += SEQUENCE_RANGE_CONCURRENCY) {
+            const chunk = ranges.slice(i, i + SEQUENCE_RANGE_CONCURRENCY);
+            await Promise.all(chunk.map(async ({ first, last }) => {
+                // Every message of the range is among the first (last - first + 1) from `first` on
+                const peeked = await managementClient.peekMessages(first, last - first + 1);
+                for (const raw of peeked) {
+                    const msg = parseServiceBusMessage(raw);
+                    const seqNum = msg.sequenceNumber;
+                    if (seqNum !== undefined && seqNum <= last && requested.has(seqNum)) {
+                        found.set(seqNum, msg);
+                    }
+                }
+            }));
+        }
 
-        const managementClient = new ManagementClient(connection, entityPath);
-        await managementClient.open();
+        lease.release();
+
+        const messages = [...requested].filter(seqNum => found.has(seqNum)).map(seqNum => found.get(seqNum)!);
+        return {
+            messages,
+            missingSequenceNumbers: [...requested].filter(seqNum => !found.has(seqNum))
+        };
+    } catch (err) {
+        lease?.release(true);
+        throw new Error(`Peek by sequence failed: ${(err as Error).message}`);
+    }
+}
 
-        const messages: ServiceBusMessage[] = [];
+/**
+ * Merge sequence numbers into ascending ranges, bridging small gaps and capping the range size
+ */
+function toSequenceRanges(sequenceNumbers: number[]): Array<{ first: number; last: number }> {
+    const sorted = [...sequenceNumbers].sort((a, b) => a - b);
+    const ranges: Array<{ first: number; last: number }> = [];
+
+    for (const seqNum of sorted) {
+        const current = ranges[ranges.length - 1];
+        if (current && seqNum - current.last <= MAX_SEQUENCE_GAP && seqNum - current.first < MAX_SEQUENCE_RANGE) {
+            current.last = seqNum;
+        } else {
+            ranges.push({ first: seqNum, last: seqNum });
+        }
+    }
+    return ranges;
+}
 
-        // Fetch messages concurrently in chunks to dramatically improve speed
-        const chunkSize = 50;
-        for (let i = 0; i < sequenceNumbers.length; i += chunkSize) {
-            const chunk = sequenceNumbers.slice(i, i + chunkSize);
+/**
+ * Receive deferred messages from a queue by sequence number (peek-lock).
+ * Settle them with complete/abandon/deadLetter/defer like any locked message.
+ */
+export async function receiveDeferredQueueMessages(
+    namespace: string,
+    queueName: string,
+    token: string,
+    sequenceNumbers: number[],
+    fromDeadLetter: boolean = false,
+    sessionId?: string
+): Promise<LockedMessage[]> {
+    const entityPath = fromDeadLetter ? `${queueName}/$DeadLetterQueue` : queueName;
+    return receiveDeferredMessages(namespace, entityPath, token, sequenceNumbers, sessionId);
+}
 
-            const promises = chunk.map(async (seqNum) => {
-                try {
-                    const peeked = await managementClient.peekMessages(seqNum, 1);
-                    if (peeked.length > 0) {
-                        const msg = parseServiceBusMessage(peeked[0]);
-                        if (msg.sequenceNumber === seqNum) {
-                            return msg;
-                        }
-                    }
-                } catch {
-                    // Message may have been deleted, skip
-                }
-                return null;
-            });
+/**
+ * Receive deferred messages from a subscription by sequence number (peek-lock)
+ */
+export async function receiveDeferredSubscriptionMessages(
+    namespace: string,
+    topicName: string,
+    subscriptionName: string,
+    token: string,
+    sequenceNumbers: number[],
+    fromDeadLetter: boolean = false,
+    sessionId?: string
+): Promise<LockedMessage[]> {
+    const basePath = `${topicName}/subscriptions/${subscriptionName}`;
+    const entityPath = fromDeadLetter ? `${basePath}/$DeadLetterQueue` : basePath;
+    return receiveDeferredMessages(namespace, entityPath, token, sequenceNumbers, sessionId);
+}
 
-            const results = await Promise.all(promises);
-            for (const msg of results) {
-                if (msg) {
-                    messages.push(msg);
-                }
-            }
-        }
+async function receiveDeferredMessages(
+    namespace: string,
+    entityPath: string,
+    token: string,
+    sequenceNumbers: number[],
+    sessionId?: string
+): Promise<LockedMessage[]> {
+    if (sequenceNumbers.length === 0) {
+        return [];
+    }
 
-        managementClient.close();
-        connection.close();
+    let lease: ManagementClientLease | null = null;
+    try {
+        lease = await acquireManagementClient(namespace, token, entityPath);
+        const locked = await lease.client.lockBySequenceNumbers(sequenceNumbers, sessionId);
+        lease.release();
+
+        // Locks live on the management node, so settlement goes back through it
+        for (const message of locked) {
+            messageHandles.set(message.lockToken, {
+                isManagementLock: true,
+                namespace,
+                entityPath,
+                token
+            });
+        }
 
-        return messages;
+        return locked;
     } catch (err) {
-        connection.close();
-        throw new Error(`Peek by sequence failed: ${(err as Error).message}`);
+        lease?.release(true);
+        throw new Error(`Receive deferred failed: ${(err as Error).message}`);
     }
 }
 
@@ -582,23 +921,18 @@ export async function getMessageSessions(
     skip: number = 0,
     top: number = 100
 ): Promise<string[]> {
-    const connection = new ServiceBusConnection(namespace, token);
+    let lease: ManagementClientLease | null = null;
     try {
-        await connection.connect();
-        await connection.authenticateCBS(entityPath);
-
-        const managementClient = new ManagementClient(connection, entityPath);
-        await managementClient.open();
+        lease = await acquireManagementClient(namespace, token, entityPath);
 
         const filterTime = lastUpdatedTime ? new Date(lastUpdatedTime) : undefined;
-        const sessions = await managementClient.getMessageSessions(filterTime, skip, top);
+        const sessions = await lease.client.getMessageSessions(filterTime, skip, top);
 
-        managementClient.close();
-        connection.close();
+        lease.release();
 
         return sessions;
     } catch (err) {
-        connection.close();
+        lease?.release(true);
         throw new Error(`Get message sessions failed: ${(err as Error).message}`);
     }
 }
@@ -1,8 +1,25 @@
 import { ServiceBusConnection } from './connection.js';
 import { ManagementClient } from './managementClient.js';
 import { MessageReceiver } from './messageReceiver.js';
+import { acquireManagementClient } from './connectionPool.js';
+import type { ManagementClientLease } from './connectionPool.js';
+import { peekPages } from './browseOperations.js';
+import { compileSearchQuery } from './searchQuery.js';
+import type { SearchPredicate } from './searchQuery.js';
 import { formatAmqpError } from './types.js';
-import type { ProgressCallback, PurgeController } from './types.js';
+import type {
+    ProgressCallback,
+    PurgeController,
+    PurgeMatchingController,
+    PurgeMatchingCursor,
+    PurgeMatchingOptions,
+    PurgeMatchingProgressCallback,
+    PurgeMatchingResult
+} from './types.js';
+
+const PURGE_CURSOR_VERSION = 1;
+// Matching messages deleted per round when no batch size is given
+const DEFAULT_PURGE_BATCH_SIZE = 100;
 
 /**
  * Purge all messages from a queue (receive and delete in loop)
@@ -429,21 +446,16 @@ async function deleteMessagesBySequence(
     token: string,
     sequenceNumbers: number[]
 ): Promise<void> {
-    const connection = new ServiceBusConnection(namespace, token);
+    let lease: ManagementClientLease | null = null;
 
     try {
-        await connection.connect();
-        await connection.authenticateCBS(entityPath);
-
-        const managementClient = new ManagementClient(connection, entityPath);
-        await managementClient.open();
+        lease = await acquireManagementClient(namespace, token, entityPath);
 
-        await managementClient.receiveAndDeleteBySequenceNumbers(sequenceNumbers);
+        await lease.client.receiveAndDeleteBySequenceNumbers(sequenceNumbers);
 
-        managementClient.close();
-        connection.close();
+        lease.release();
     } catch (err) {
-        connection.close();
+        lease?.release(true);
         throw new Error(`Delete by sequence failed: ${(err as Error).message}`);
     }
 }
@@ -487,14 +499,11 @@ async function deadLetterMessagesBySequence(
     reason: string,
     description: string
 ): Promise<void> {
-    const connection = new ServiceBusConnection(namespace, token);
+    let lease: ManagementClientLease | null = null;
 
     try {
-        await connection.connect();
-        await connection.authenticateCBS(entityPath);
-
-        const managementClient = new ManagementClient(connection, entityPath);
-        await managementClient.open();
+        lease = await acquireManagementClient(namespace, token, entityPath);
+        const managementClient = lease.client;
 
         // Lock by sequence number (returns lock tokens for exactly those messages)
         const locked = await managementClient.lockBySequenceNumbers(sequenceNumbers);
@@ -505,10 +514,217 @@ async function deadLetterMessagesBySequence(
             await managementClient.updateDisposition(lockTokens, 'suspended', reason, description);
         }
 
-        managementClient.close();
-        connection.close();
+        lease.release();
     } catch (err) {
-        connection.close();
+        lease?.release(true);
         throw new Error(`Dead letter by sequence failed: ${(err as Error).message}`);
     }
 }
+
+/**
+ * Delete only the messages matching a query, e.g. one bad message type out of a mixed DLQ.
+ * The entity is scanned with peeks and the matches are deleted batchSize at a time while the scan goes on.
+ * Unless options.verify is false, each batch is locked first and only the messages that still match
+ * are completed - the others are abandoned and counted as skipped. Message content never changes, so
+ * that only happens for queries on broker-set properties (delivery count, state, lock time); note that
+ * abandoning raises the delivery count, which can dead-letter a message on an active queue.
+ * @param entityPath - Queue, subscription or DLQ path, e.g. "orders/$DeadLetterQueue"
+ * @param query - Service Bus SQL filter expression (plus MATCHES and body JSON paths), as for search
+ */
+export async function purgeMatching(
+    namespace: string,
+    entityPath: string,
+    token: string,
+    query: string,
+    onProgress: PurgeMatchingProgressCallback | null = null,
+    options: PurgeMatchingOptions = {}
+): Promise<PurgeMatchingController> {
+    return await purgeMatchingMessages(namespace, entityPath, token, query, onProgress, options, null);
+}
+
+/**
+ * Continue a stopped or interrupted filtered purge from its cursor
+ * @param options - Overrides the cursor's options
+ */
+export async function resumePurgeMatching(
+    cursor: PurgeMatchingCursor,
+    token: string,
+    onProgress: PurgeMatchingProgressCallback | null = null,
+    options: PurgeMatchingOptions = {}
+): Promise<PurgeMatchingController> {
+    if (!cursor || cursor.version !== PURGE_CURSOR_VERSION || !cursor.entityPath || typeof cursor.nextSequenceNumber !== 'number') {
+        throw new Error('Failed to resume purge: invalid or unsupported cursor');
+    }
+    return await purgeMatchingMessages(
+        cursor.namespace, cursor.entityPath, token, cursor.query, onProgress,
+        { ...cursor.options, ...options },
+        cursor
+    );
+}
+
+// Internal implementation
+async function purgeMatchingMessages(
+    namespace: string,
+    entityPath: string,
+    token: string,
+    query: string,
+    onProgress: PurgeMatchingProgressCallback | null,
+    options: PurgeMatchingOptions,
+    resumeFrom: PurgeMatchingCursor | null
+): Promise<PurgeMatchingController> {
+    let matches: SearchPredicate;
+    try {
+        // An empty query would match everything - purgeQueue / purgeSubscription are for that
+        if (!query?.trim()) {
+            throw new Error('a query is required');
+        }
+        matches = compileSearchQuery(query);
+    } catch (err) {
+        throw new Error(`Failed to start purge: ${(err as Error).message}`);
+    }
+
+    const batchSize = Math.max(1, Math.floor(options.batchSize ?? DEFAULT_PURGE_BATCH_SIZE));
+    const verify = options.verify ?? true;
+    const abort = new AbortController();
+
+    const live = {
+        scannedCount: resumeFrom?.scannedCount ?? 0,
+        matchCount: resumeFrom?.matchCount ?? 0,
+        deletedCount: resumeFrom?.deletedCount ?? 0,
+        skippedCount: resumeFrom?.skippedCount ?? 0
+    };
+    const deletedSequenceNumbers: number[] = [];
+    // Position and counters as of the last point where every scanned match had been handled
+    let committed: PurgeMatchingCursor = {
+        version: PURGE_CURSOR_VERSION,
+        namespace,
+        entityPath,
+        query,
+        nextSequenceNumber: resumeFrom?.nextSequenceNumber ?? 0,
+        options: { ...options },
+        ...live
+    };
+
+    const run = async (): Promise<PurgeMatchingResult> => {
+        let lease: ManagementClientLease | null = null;
+
+        try {
+            lease = await acquireManagementClient(namespace, token, entityPath);
+            const client = lease.client;
+            let pending: number[] = [];
+            let scannedTo = committed.nextSequenceNumber;
+
+            const deleteBatch = async (sequenceNumbers: number[]): Promise<number[]> => {
+                // Only what the broker confirms as completed / received counts as deleted
+                const deleted = verify
+                    ? await deleteIfStillMatching(client, sequenceNumbers, matches)
+                    : await client.receiveAndDeleteBySequenceNumbers(sequenceNumbers);
+                live.deletedCount += deleted.length;
+                live.skippedCount += sequenceNumbers.length - deleted.length;
+                deletedSequenceNumbers.push(...deleted);
+                return deleted;
+            };
+
+            const commit = () => {
+                committed = { ...committed, nextSequenceNumber: scannedTo, ...live };
+            };
+
+            for await (const batch of peekPages(client, { fromSequenceNumber: scannedTo, signal: abort.signal })) {
+                for (const message of batch) {
+                    scannedTo = message.sequenceNumber! + 1;
+                    live.scannedCount++;
+                    if (matches(message)) {
+                        live.matchCount++;
+                        pending.push(message.sequenceNumber!);
+                    }
+                }
+
+                const newlyDeleted: number[] = [];
+                while (pending.length >= batchSize) {
+                    newlyDeleted.push(...await deleteBatch(pending.slice(0, batchSize)));
+                    pending = pending.slice(batchSize);
+                }
+                if (pending.length === 0) commit();
+
+                if (onProgress) {
+                    onProgress(live.deletedCount, live.scannedCount, live.matchCount, newlyDeleted);
+                }
+            }
+
+            // Scan finished or stopped - matches already collected are still handled, so the cursor stays exact
+            if (pending.length > 0) {
+                const newlyDeleted = await deleteBatch(pending);
+                pending = [];
+                if (onProgress) {
+                    onProgress(live.deletedCount, live.scannedCount, live.matchCount, newlyDeleted);
+                }
+            }
+            commit();
+
+            lease.release();
+            return {
+                ...live,
+                deletedSequenceNumbers,
+                completed: !abort.signal.aborted,
+                cursor: committed
+            };
+        } catch (err) {
+            lease?.release(true);
+            throw new Error(`Purge matching failed: ${(err as Error).message}`);
+        }
+    };
+
+    return {
+        promise: run(),
+        stop: () => {
+            abort.abort();
+        },
+        getProgress: () => ({
+            scanned: live.scannedCount,
+            matches: live.matchCount,
+            deleted: live.deletedCount,
+            skipped: live.skippedCount
+        }),
+        getCursor: () => committed
+    };
+}
+
+/**
+ * Lock the messages, then complete those that still match and abandon the rest.
+ * Returns the sequence numbers whose completion succeeded; messages already gone are not locked at all.
+ */
+async function deleteIfStillMatching(
+    client: ManagementClient,
+    sequenceNumbers: number[],
+    matches: SearchPredicate
+): Promise<number[]> {
+    const locked = await client.lockBySequenceNumbers(sequenceNumbers);
+    const stillMatching = locked.filter(message => matches(message));
+    const changed = locked.filter(message => !stillMatching.includes(message));
+
+    if (changed.length > 0) {
+        // Give them back now rather than when the lock expires - either way their delivery count goes up
+        await client.updateDisposition(changed.map(message => message.lockToken), 'abandoned').catch(() => { });
+    }
+    if (stillMatching.length === 0) {
+        return [];
+    }
+
+    try {
+        await client.updateDisposition(stillMatching.map(message => message.lockToken), 'completed');
+        return stillMatching.map(message => message.sequenceNumber!);
+    } catch (err) {
+        // The batch failed as a whole (e.g. a lock was lost) - complete one by one to learn which went through
+        console.warn('[Purge] Batch complete failed, completing one by one:', err);
+        const completed: number[] = [];
+        for (const message of stillMatching) {
+            try {
+                await client.updateDisposition([message.lockToken], 'completed');
+                completed.push(message.sequenceNumber!);
+            } catch {
+                // Still locked or already gone - counted as skipped
+            }
+        }
+        return completed;
+    }
+}
@@ -1,5 +1,5 @@
-import { ServiceBusConnection } from './connection.js';
-import { ManagementClient } from './managementClient.js';
+import { acquireManagementClient } from './connectionPool.js';
+import type { ManagementClientLease } from './connectionPool.js';
 
 /**
  * Enumerate all rules/filters on a topic subscription
@@ -11,22 +11,17 @@ export async function enumerateRules(
     token: string
 ): Promise<any[]> {
     const subscriptionPath = `${topicName}/subscriptions/${subscriptionName}`;
-    const connection = new ServiceBusConnection(namespace, token);
+    let lease: ManagementClientLease | null = null;
     try {
-        await connection.connect();
-        await connection.authenticateCBS(subscriptionPath);
+        lease = await acquireManagementClient(namespace, token, subscriptionPath);
 
-        const managementClient = new ManagementClient(connection, subscriptionPath);
-        await managementClient.open();
+        const rules = await lease.client.enumerateRules(0, 100);
 
-        const rules = await managementClient.enumerateRules(0, 100);
-
-        managementClient.close();
-        connection.close();
+        lease.release();
 
         return rules;
     } catch (err) {
-        connection.close();
+        lease?.release(true);
         throw new Error(`Enumerate rules failed: ${(err as Error).message}`);
     }
 }
@@ -45,20 +40,15 @@ export async function addRule(
     actionExpression?: string
 ): Promise<void> {
     const subscriptionPath = `${topicName}/subscriptions/${subscriptionName}`;
-    const connection = new ServiceBusConnection(namespace, token);
+    let lease: ManagementClientLease | null = null;
     try {
-        await connection.connect();
-        await connection.authenticateCBS(subscriptionPath);
-
-        const managementClient = new ManagementClient(connection, subscriptionPath);
-        await managementClient.open();
+        lease = await acquireManagementClient(namespace, token, subscriptionPath);
 
-        await managementClient.addRule(ruleName, filterType, filterExpression, actionExpression);
+        await lease.client.addRule(ruleName, filterType, filterExpression, actionExpression);
 
-        managementClient.close();
-        connection.close();
+        lease.release();
     } catch (err) {
-        connection.close();
+        lease?.release(true);
         throw new Error(`Add rule failed: ${(err as Error).message}`);
     }
 }
@@ -74,20 +64,15 @@ export async function removeRule(
     ruleName: string
 ): Promise<void> {
     const subscriptionPath = `${topicName}/subscriptions/${subscriptionName}`;
-    const connection = new ServiceBusConnection(namespace, token);
+    let lease: ManagementClientLease | null = null;
     try {
-        await connection.connect();
-        await connection.authenticateCBS(subscriptionPath);
-
-        const managementClient = new ManagementClient(connection, subscriptionPath);
-        await managementClient.open();
+        lease = await acquireManagementClient(namespace, token, subscriptionPath);
 
-        await managementClient.removeRule(ruleName);
+        await lease.client.removeRule(ruleName);
 
-        managementClient.close();
-        connection.close();
+        lease.release();
     } catch (err) {
-        connection.close();
+        lease?.release(true);
         throw new Error(`Remove rule failed: ${(err as Error).message}`);
     }
 }
@@ -1,24 +1,132 @@
-import { ServiceBusConnection } from './connection.js';
-import { ManagementClient } from './managementClient.js';
-import { parseServiceBusMessage } from './messageParser.js';
+import type { ManagementClient } from './managementClient.js';
+import { acquireManagementClient } from './connectionPool.js';
+import type { ManagementClientLease } from './connectionPool.js';
+import { peekPages } from './browseOperations.js';
+import { compileSearchQuery } from './searchQuery.js';
+import type { SearchPredicate } from './searchQuery.js';
 import type { ServiceBusMessage } from './types.js';
 
+// Matched messages kept in memory when no budget is given
+const DEFAULT_MESSAGE_BUDGET_BYTES = 16 * 1024 * 1024;
+const SEARCH_CURSOR_VERSION = 1;
+// Entities searched at the same time by searchEntities
+const DEFAULT_ENTITY_CONCURRENCY = 4;
+
 export interface SearchController {
     promise: Promise<SearchResult>;
     stop: () => void;
     getProgress: () => { scanned: number; matches: number };
+    getCursor: () => SearchCursor;
 }
 
 export interface SearchResult {
     scannedCount: number;
     matchCount: number;
     matchingSequenceNumbers: number[];
+    messages: SearchMessage[];   // Matched messages, when includeMessages is set (up to the memory budget)
+    messagesOmitted: number;     // Matches past the budget - the last ones in matchingSequenceNumbers
+    completed: boolean;          // false when stopped or a limit was hit - resume from the cursor
+    cursor: SearchCursor;
+}
+
+/**
+ * Serializable search position - store it (e.g. in localStorage) and pass it to resumeSearch.
+ * Holds no token; counters and matches carry over, kept messages do not.
+ * maxMessages/maxMatches count across sessions - raise them on the cursor to search past a limit.
+ */
+export interface SearchCursor {
+    version: number;
+    namespace: string;
+    entityPath: string;
+    nextSequenceNumber: number;
+    bodyFilter: string;
+    messageIdFilter: string;
+    subjectFilter: string;
+    query: string | null;
+    maxMessages: number;
+    maxMatches: number;
+    options: Omit<SearchOptions, 'onCheckpoint'>;
+    scannedCount: number;
+    matchCount: number;
+    matchingSequenceNumbers: number[];
+}
+
+/**
+ * Matched message as kept by the search - the requested fields plus sequenceNumber
+ */
+export type SearchMessage = Partial<ServiceBusMessage>;
+
+/**
+ * Search options
+ * - includeMessages: stream and keep the parsed messages, so hits need no second peek
+ * - fields: projection - only keep these message fields (sequenceNumber is always kept)
+ * - maxMessageBytes: memory budget for kept messages; later matches are reported by sequence number only
+ * - onCheckpoint: called with the cursor after every scanned batch
+ */
+export interface SearchOptions {
+    includeMessages?: boolean;
+    fields?: Array<keyof ServiceBusMessage>;
+    maxMessageBytes?: number;
+    onCheckpoint?: (cursor: SearchCursor) => void;
+}
+
+export type SearchProgressCallback = (scanned: number, matches: number, newMatches: number[], newMessages: SearchMessage[]) => void;
+
+/**
+ * Namespace-wide search options (SearchOptions apply to every entity; the memory budget is shared)
+ * - includeDeadLetter: also search the DLQ of every given entity
+ * - concurrency: entities searched at the same time (default 4)
+ * - maxMessagesPerEntity / maxMatchesPerEntity: stop an entity after this many scanned / matched
+ */
+export interface EntitySearchOptions extends Omit<SearchOptions, 'onCheckpoint'> {
+    includeDeadLetter?: boolean;
+    concurrency?: number;
+    maxMessagesPerEntity?: number;
+    maxMatchesPerEntity?: number;
+}
+
+/**
+ * Search status of one entity - 'completed' only when it was scanned to the end,
+ * 'limited' when maxMessagesPerEntity or maxMatchesPerEntity cut the scan short
+ */
+export type EntitySearchStatus = 'pending' | 'searching' | 'completed' | 'limited' | 'stopped' | 'failed';
+
+/**
+ * Search state and results of one entity
+ */
+export interface EntitySearchResult {
+    entityPath: string;
+    status: EntitySearchStatus;
+    scannedCount: number;
+    matchCount: number;
+    matchingSequenceNumbers: number[];
+    messages: SearchMessage[];
+    messagesOmitted: number;
+    error?: string;
+}
+
+export interface NamespaceSearchResult {
+    entities: EntitySearchResult[];
+    scannedCount: number;
+    matchCount: number;
+}
+
+export interface EntitySearchController {
+    promise: Promise<NamespaceSearchResult>;
+    stop: () => void;
+    getProgress: () => EntitySearchResult[];
 }
 
-export type SearchProgressCallback = (scanned: number, matches: number, newMatches: number[]) => void;
+export type EntitySearchProgressCallback = (
+    entityPath: string,
+    progress: EntitySearchResult,
+    newMatches: number[],
+    newMessages: SearchMessage[]
+) => void;
 
 /**
  * Search for messages in a queue matching filters
+ * @param query - Service Bus SQL filter expression (plus MATCHES and body JSON paths), ANDed with the filters
  */
 export async function searchQueueMessages(
     namespace: string,
@@ -30,10 +138,12 @@ export async function searchQueueMessages(
     subjectFilter: string,
     maxMessages: number,
     maxMatches: number,
-    onProgress: SearchProgressCallback | null = null
+    onProgress: SearchProgressCallback | null = null,
+    query: string | null = null,
+    options: SearchOptions = {}
 ): Promise<SearchController> {
     const entityPath = fromDeadLetter ? `${queueName}/$DeadLetterQueue` : queueName;
-    return await searchMessages(namespace, entityPath, token, bodyFilter, messageIdFilter, subjectFilter, maxMessages, maxMatches, onProgress);
+    return await searchMessages(namespace, entityPath, token, bodyFilter, messageIdFilter, subjectFilter, maxMessages, maxMatches, onProgress, query, options);
 }
 
 /**
@@ -50,15 +160,40 @@ export async function searchSubscriptionMessages(
     subjectFilter: string,
     maxMessages: number,
     maxMatches: number,
-    onProgress: SearchProgressCallback | null = null
+    onProgress: SearchProgressCallback | null = null,
+    query: string | null = null,
+    options: SearchOptions = {}
 ): Promise<SearchController> {
     const subscriptionPath = `${topicName}/subscriptions/${subscriptionName}`;
     const entityPath = fromDeadLetter ? `${subscriptionPath}/$DeadLetterQueue` : subscriptionPath;
-    return await searchMessages(namespace, entityPath, token, bodyFilter, messageIdFilter, subjectFilter, maxMessages, maxMatches, onProgress);
+    return await searchMessages(namespace, entityPath, token, bodyFilter, messageIdFilter, subjectFilter, maxMessages, maxMatches, onProgress, query, options);
+}
+
+/**
+ * Continue a stopped or interrupted search from its cursor
+ * @param options - Overrides the cursor's options (e.g. a new onCheckpoint)
+ */
+export async function resumeSearch(
+    cursor: SearchCursor,
+    token: string,
+    onProgress: SearchProgressCallback | null = null,
+    options: SearchOptions = {}
+): Promise<SearchController> {
+    if (!cursor || cursor.version !== SEARCH_CURSOR_VERSION || !cursor.entityPath || typeof cursor.nextSequenceNumber !== 'number') {
+        throw new Error('Failed to resume search: invalid or unsupported cursor');
+    }
+    return await searchMessages(
+        cursor.namespace, cursor.entityPath, token,
+        cursor.bodyFilter, cursor.messageIdFilter, cursor.subjectFilter,
+        cursor.maxMessages, cursor.maxMatches, onProgress, cursor.query,
+        { ...cursor.options, ...options },
+        cursor
+    );
 }
 
 /**
- * Internal search implementation - scans messages and filters client-side
+ * Internal search implementation - scans messages and filters client-side.
+ * A batch that still fails after its retries ends the search (the promise rejects) rather than being skipped.
  */
 async function searchMessages(
     namespace: string,
@@ -69,102 +204,66 @@ async function searchMessages(
     subjectFilter: string,
     maxMessages: number,
     maxMatches: number,
-    onProgress: SearchProgressCallback | null = null
+    onProgress: SearchProgressCallback | null = null,
+    query: string | null = null,
+    options: SearchOptions = {},
+    resumeFrom: SearchCursor | null = null
 ): Promise<SearchController> {
-    const connection = new ServiceBusConnection(namespace, token);
-    let isRunning = true;
-    let scannedCount = 0;
-    let matchingSequenceNumbers: number[] = [];
+    let lease: ManagementClientLease | null = null;
+    const abort = new AbortController();
+    const state = createScanState(resumeFrom);
+    const budget = createMessageBudget(options);
+    const { onCheckpoint, ...cursorOptions } = options;
+
+    const getCursor = (): SearchCursor => ({
+        version: SEARCH_CURSOR_VERSION,
+        namespace,
+        entityPath,
+        nextSequenceNumber: state.nextSequenceNumber,
+        bodyFilter,
+        messageIdFilter,
+        subjectFilter,
+        query,
+        maxMessages,
+        maxMatches,
+        options: cursorOptions,
+        scannedCount: state.scannedCount,
+        matchCount: state.matchingSequenceNumbers.length,
+        matchingSequenceNumbers: [...state.matchingSequenceNumbers]
+    });
 
     try {
-        await connection.connect();
-        await connection.authenticateCBS(entityPath);
+        const matches = buildSearchPredicate(bodyFilter, messageIdFilter, subjectFilter, query);
+
+        const acquired = await acquireManagementClient(namespace, token, entityPath);
+        lease = acquired;
+        const managementClient = acquired.client;
 
         const searchPromise = new Promise<SearchResult>(async (resolve, reject) => {
             try {
-                const managementClient = new ManagementClient(connection, entityPath);
-                await managementClient.open();
-
-                const batchSize = 100;
-                let currentSequence = 0;
-                let consecutiveEmptyBatches = 0;
-                const maxEmptyBatches = 3;
-
-                while (isRunning && scannedCount < maxMessages && matchingSequenceNumbers.length < maxMatches) {
-                    try {
-                        const messages = await managementClient.peekMessages(currentSequence, batchSize);
-
-                        if (messages.length === 0) {
-                            consecutiveEmptyBatches++;
-                            if (consecutiveEmptyBatches >= maxEmptyBatches) {
-                                break; // No more messages
-                            }
-                            continue;
-                        }
-
-                        consecutiveEmptyBatches = 0;
-                        const newMatches: number[] = [];
-
-                        for (const rawMsg of messages) {
-                            if (!isRunning) break;
-
-                            const msg = parseServiceBusMessage(rawMsg);
-                            const seqNum = msg.sequenceNumber;
-
-                            if (seqNum !== undefined && seqNum > currentSequence) {
-                                currentSequence = seqNum;
-                            }
-
-                            scannedCount++;
-
-                            // Check filters (all must match if specified)
-                            let matches = true;
-
-                            if (bodyFilter && matches) {
-                                const body = typeof msg.body === 'string' ? msg.body : JSON.stringify(msg.body);
-                                matches = body?.toLowerCase().includes(bodyFilter.toLowerCase()) ?? false;
-                            }
-
-                            if (messageIdFilter && matches) {
-                                matches = msg.messageId?.toLowerCase().includes(messageIdFilter.toLowerCase()) ?? false;
-                            }
-
-                            if (subjectFilter && matches) {
-                                matches = msg.subject?.toLowerCase().includes(subjectFilter.toLowerCase()) ?? false;
-                            }
-
-                            if (matches && seqNum !== undefined) {
-                                matchingSequenceNumbers.push(seqNum);
-                                newMatches.push(seqNum);
-                            }
-                        }
-
-                        // Update sequence for next batch
-                        currentSequence++;
-
+                await scanEntity(managementClient, state, matches, maxMessages, maxMatches, options, budget, abort.signal,
+                    (newMatches, newMessages) => {
                         // Report progress
                         if (onProgress) {
-                            onProgress(scannedCount, matchingSequenceNumbers.length, newMatches);
+                            onProgress(state.scannedCount, state.matchingSequenceNumbers.length, newMatches, newMessages);
                         }
+                        onCheckpoint?.(getCursor());
+                    });
 
-                    } catch (batchErr: any) {
-                        console.error('[Search] Batch error:', batchErr);
-                        // Continue to next batch on non-fatal errors
-                        currentSequence++;
-                    }
-                }
-
-                managementClient.close();
-                connection.close();
+                acquired.release();
 
                 resolve({
-                    scannedCount,
-                    matchCount: matchingSequenceNumbers.length,
-                    matchingSequenceNumbers
+                    scannedCount: state.scannedCount,
+                    matchCount: state.matchingSequenceNumbers.length,
+                    matchingSequenceNumbers: state.matchingSequenceNumbers,
+                    messages: state.messages,
+                    messagesOmitted: state.messagesOmitted,
+                    completed: state.completed,
+                    cursor: getCursor()
                 });
 
             } catch (err) {
-                connection.close();
+                acquired.release(true);
                 reject(new Error(`Search failed: ${(err as Error).message}`));
             }
         });
@@ -172,16 +271,264 @@ async function searchMessages(
         return {
             promise: searchPromise,
             stop: () => {
-                isRunning = false;
+                abort.abort();
             },
             getProgress: () => ({
-                scanned: scannedCount,
-                matches: matchingSequenceNumbers.length
-            })
+                scanned: state.scannedCount,
+                matches: state.matchingSequenceNumbers.length
+            }),
+            getCursor
         };
 
     } catch (err) {
-        connection.close();
+        lease?.release(true);
         throw new Error(`Failed to start search: ${(err as Error).message}`);
     }
 }
+
+/**
+ * Search many entities (queues, subscriptions, DLQs) of a namespace with one query.
+ * Entities are scanned concurrency at a time over the pooled connection, each on its own management link.
+ * @param entityPaths - e.g. "orders", "orders/$DeadLetterQueue", "events/subscriptions/audit"
+ * @param onProgress - Called after every batch with the entity and its progress so far
+ * An entity whose batch still fails after its retries is marked 'failed'; the others carry on.
+ */
+export async function searchEntities(
+    namespace: string,
+    token: string,
+    entityPaths: string[],
+    query: string,
+    onProgress: EntitySearchProgressCallback | null = null,
+    options: EntitySearchOptions = {}
+): Promise<EntitySearchController> {
+    const paths = [...new Set(entityPaths.flatMap(path =>
+        options.includeDeadLetter && !path.endsWith('/$DeadLetterQueue') ? [path, `${path}/$DeadLetterQueue`] : [path]
+    ))];
+    if (paths.length === 0) {
+        throw new Error('Failed to start search: no entities given');
+    }
+
+    let matches: SearchPredicate;
+    try {
+        matches = buildSearchPredicate('', '', '', query);
+    } catch (err) {
+        throw new Error(`Failed to start search: ${(err as Error).message}`);
+    }
+
+    const maxMessages = options.maxMessagesPerEntity ?? Number.MAX_SAFE_INTEGER;
+    const maxMatches = options.maxMatchesPerEntity ?? Number.MAX_SAFE_INTEGER;
+    const concurrency = Math.max(1, Math.min(options.concurrency ?? DEFAULT_ENTITY_CONCURRENCY, paths.length));
+    const budget = createMessageBudget(options);
+    const abort = new AbortController();
+
+    const entities = paths.map(entityPath => ({
+        entityPath,
+        status: 'pending' as EntitySearchStatus,
+        error: undefined as string | undefined,
+        state: createScanState(null)
+    }));
+
+    const snapshot = (entity: typeof entities[number]): EntitySearchResult => ({
+        entityPath: entity.entityPath,
+        status: entity.status,
+        scannedCount: entity.state.scannedCount,
+        matchCount: entity.state.matchingSequenceNumbers.length,
+        matchingSequenceNumbers: [...entity.state.matchingSequenceNumbers],
+        messages: entity.state.messages,
+        messagesOmitted: entity.state.messagesOmitted,
+        ...(entity.error ? { error: entity.error } : {})
+    });
+
+    const searchEntity = async (entity: typeof entities[number]) => {
+        entity.status = 'searching';
+        let lease: ManagementClientLease | null = null;
+        try {
+            lease = await acquireManagementClient(namespace, token, entity.entityPath);
+            await scanEntity(lease.client, entity.state, matches, maxMessages, maxMatches, options, budget, abort.signal,
+                (newMatches, newMessages) => onProgress?.(entity.entityPath, snapshot(entity), newMatches, newMessages));
+            lease.release();
+            if (entity.state.completed) {
+                entity.status = 'completed';
+            } else {
+                entity.status = abort.signal.aborted ? 'stopped' : 'limited';
+            }
+        } catch (err) {
+            lease?.release(true);
+            entity.status = 'failed';
+            entity.error = (err as Error).message;
+        }
+        onProgress?.(entity.entityPath, snapshot(entity), [], []);
+    };
+
+    let next = 0;
+    const worker = async () => {
+        while (next < entities.length) {
+            const entity = entities[next++];
+            if (abort.signal.aborted) {
+                entity.status = 'stopped';
+                continue;
+            }
+            await searchEntity(entity);
+        }
+    };
+
+    const searchPromise = Promise.all(Array.from({ length: concurrency }, worker)).then(() => {
+        const results = entities.map(snapshot);
+        return {
+            entities: results,
+            scannedCount: results.reduce((sum, r) => sum + r.scannedCount, 0),
+            matchCount: results.reduce((sum, r) => sum + r.matchCount, 0)
+        };
+    });
+
+    return {
+        promise: searchPromise,
+        stop: () => {
+            abort.abort();
+        },
+        getProgress: () => entities.map(snapshot)
+    };
+}
+
+/**
+ * Scan state of one entity - where the next batch starts and what matched so far
+ */
+interface ScanState {
+    nextSequenceNumber: number;
+    scannedCount: number;
+    matchingSequenceNumbers: number[];
+    messages: SearchMessage[];
+    messagesOmitted: number;
+    completed: boolean;
+}
+
+/**
+ * Memory budget for kept messages - shared by every entity of a search
+ */
+interface MessageBudget {
+    used: number;
+    limit: number;
+}
+
+function createScanState(resumeFrom: SearchCursor | null): ScanState {
+    return {
+        nextSequenceNumber: resumeFrom?.nextSequenceNumber ?? 0,
+        scannedCount: resumeFrom?.scannedCount ?? 0,
+        matchingSequenceNumbers: [...(resumeFrom?.matchingSequenceNumbers ?? [])],
+        messages: [],
+        messagesOmitted: 0,
+        completed: false
+    };
+}
+
+function createMessageBudget(options: SearchOptions): MessageBudget {
+    return { used: 0, limit: options.maxMessageBytes ?? DEFAULT_MESSAGE_BUDGET_BYTES };
+}
+
+/**
+ * Scan an entity from state.nextSequenceNumber until its end, a limit or an abort
+ */
+async function scanEntity(
+    managementClient: ManagementClient,
+    state: ScanState,
+    matches: SearchPredicate,
+    maxMessages: number,
+    maxMatches: number,
+    options: SearchOptions,
+    budget: MessageBudget,
+    signal: AbortSignal,
+    onBatch: (newMatches: number[], newMessages: SearchMessage[]) => void
+): Promise<void> {
+    const withinLimits = () => state.scannedCount < maxMessages && state.matchingSequenceNumbers.length < maxMatches;
+    if (!withinLimits()) return;
+
+    for await (const batch of peekPages(managementClient, { fromSequenceNumber: state.nextSequenceNumber, signal })) {
+        const newMatches: number[] = [];
+        const newMessages: SearchMessage[] = [];
+
+        // Limits are checked per message, so a batch is cut exactly where a limit is reached
+        for (const msg of batch) {
+            if (signal.aborted || !withinLimits()) break;
+
+            const seqNum = msg.sequenceNumber!;
+            state.nextSequenceNumber = seqNum + 1;
+            state.scannedCount++;
+
+            if (matches(msg)) {
+                state.matchingSequenceNumbers.push(seqNum);
+                newMatches.push(seqNum);
+
+                if (options.includeMessages) {
+                    const kept = projectMessage(msg, options.fields);
+                    const size = estimateMessageBytes(kept);
+                    // Once over budget, stop keeping messages so the omitted ones are the tail
+                    if (state.messagesOmitted === 0 && budget.used + size <= budget.limit) {
+                        budget.used += size;
+                        state.messages.push(kept);
+                        newMessages.push(kept);
+                    } else {
+                        state.messagesOmitted++;
+                    }
+                }
+            }
+        }
+
+        onBatch(newMatches, newMessages);
+
+        if (signal.aborted || !withinLimits()) return;
+    }
+
+    // The pages ran out on their own - the end of the entity was reached
+    state.completed = !signal.aborted;
+}
+
+/**
+ * Combine the substring filters (case-insensitive) and the query - all that are given must match
+ */
+function buildSearchPredicate(
+    bodyFilter: string,
+    messageIdFilter: string,
+    subjectFilter: string,
+    query: string | null
+): SearchPredicate {
+    const queryPredicate = query?.trim() ? compileSearchQuery(query) : null;
+    const body = bodyFilter?.toLowerCase();
+    const messageId = messageIdFilter?.toLowerCase();
+    const subject = subjectFilter?.toLowerCase();
+
+    return msg => {
+        if (body) {
+            const text = typeof msg.body === 'string' ? msg.body : JSON.stringify(msg.body);
+            if (!(text?.toLowerCase().includes(body) ?? false)) return false;
+        }
+        if (messageId && !(msg.messageId?.toLowerCase().includes(messageId) ?? false)) return false;
+        if (subject && !(msg.subject?.toLowerCase().includes(subject) ?? false)) return false;
+        return queryPredicate ? queryPredicate(msg) : true;
+    };
+}
+
+/**
+ * Keep only the requested fields of a matched message
+ */
+function projectMessage(msg: ServiceBusMessage, fields?: Array<keyof ServiceBusMessage>): SearchMessage {
+    if (!fields || fields.length === 0) {
+        return msg;
+    }
+    const projected: Record<string, unknown> = { sequenceNumber: msg.sequenceNumber };
+    for (const field of fields) {
+        projected[field] = msg[field];
+    }
+    return projected as SearchMessage;
+}
+
+/**
+ * Rough in-memory size of a message (UTF-16 of its JSON form)
+ */
+function estimateMessageBytes(msg: SearchMessage): number {
+    try {
+        return JSON.stringify(msg).length * 2;
+    } catch {
+        // bigint values and the like - the body dominates anyway
+        return ((msg.body?.length ?? 0) + (msg.bodyBase64?.length ?? 0)) * 2;
+    }
+}
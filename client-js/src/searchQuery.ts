@@ -0,0 +1,569 @@
+/**
+ * Message search query language
+ * The Service Bus SQL filter grammar (so subscription rules can be pasted as-is),
+ * extended with MATCHES for regular expressions and JSON paths into the body.
+ *
+ *   sys.Label = 'order' AND (user.region IN ('eu', 'us') OR sys.DeliveryCount > 3)
+ *   sys.EnqueuedTimeUtc >= '2024-05-01T00:00:00Z' AND sys.DeadLetterReason LIKE 'Max%'
+ *   $.order.total > 100 AND NOT body.customer.email MATCHES '/@example\.com$/i'
+ */
+
+import type { ServiceBusMessage } from './types.js';
+
+/**
+ * Compiled query - true when the message matches
+ */
+export type SearchPredicate = (message: ServiceBusMessage) => boolean;
+
+type TokenType = 'identifier' | 'keyword' | 'string' | 'number' | 'operator' | 'end';
+
+interface Token {
+    type: TokenType;
+    value: string;
+    path?: Array<string | number>;  // identifier segments, e.g. body.items[0] -> ['body', 'items', 0]
+    position: number;
+}
+
+// SQL three-valued logic: null is "unknown" (a missing property), which never matches
+type Truth = boolean | null;
+
+interface EvaluationContext {
+    message: ServiceBusMessage;
+    json?: { value: unknown };  // body parsed once, on first JSON path lookup
+}
+
+type Operand = (context: EvaluationContext) => unknown;
+type Condition = (context: EvaluationContext) => Truth;
+
+const KEYWORDS = new Set(['AND', 'OR', 'NOT', 'LIKE', 'ESCAPE', 'IN', 'IS', 'NULL', 'TRUE', 'FALSE', 'EXISTS', 'MATCHES']);
+const COMPARISON_OPERATORS = new Set(['=', '<>', '!=', '>', '>=', '<', '<=']);
+
+// sys.* properties, by lower-case name
+const SYSTEM_PROPERTIES: Record<string, (message: ServiceBusMessage) => unknown> = {
+    messageid: m => m.messageId,
+    correlationid: m => m.correlationId,
+    label: m => m.subject,
+    subject: m => m.subject,
+    contenttype: m => m.contentType,
+    sessionid: m => m.sessionId,
+    to: m => m.to,
+    replyto: m => m.replyTo,
+    deliverycount: m => m.deliveryCount,
+    sequencenumber: m => m.sequenceNumber,
+    enqueuedtimeutc: m => toDate(m.enqueuedTime),
+    scheduledenqueuetimeutc: m => toDate(m.scheduledEnqueueTime),
+    expiresatutc: m => toDate(m.expiryTime),
+    lockeduntilutc: m => toDate(m.lockedUntil),
+    timetolive: m => m.ttl,
+    partitionkey: m => m.partitionKey,
+    state: m => m.state,
+    deadletterreason: m => m.applicationProperties?.DeadLetterReason,
+    deadlettererrordescription: m => m.applicationProperties?.DeadLetterErrorDescription,
+    deadlettersource: m => m.messageAnnotations?.['x-opt-deadletter-source']
+};
+
+/**
+ * Compile a query into a predicate. Throws on syntax errors, with the position of the problem.
+ */
+export function compileSearchQuery(query: string): SearchPredicate {
+    const parser = new QueryParser(tokenize(query));
+    const condition = parser.parse();
+    return (message: ServiceBusMessage) => condition({ message }) === true;
+}
+
+function tokenize(query: string): Token[] {
+    const tokens: Token[] = [];
+    let i = 0;
+
+    const fail = (message: string, position = i): never => {
+        throw new Error(`Invalid search query at position ${position + 1}: ${message}`);
+    };
+
+    while (i < query.length) {
+        const ch = query[i];
+
+        if (/\s/.test(ch)) {
+            i++;
+            continue;
+        }
+
+        const start = i;
+
+        if (ch === "'") {
+            // 'it''s' - a doubled quote is a literal quote
+            let value = '';
+            i++;
+            for (;;) {
+                if (i >= query.length) fail('unterminated string', start);
+                if (query[i] === "'") {
+                    if (query[i + 1] === "'") {
+                        value += "'";
+                        i += 2;
+                        continue;
+                    }
+                    i++;
+                    break;
+                }
+                value += query[i++];
+            }
+            tokens.push({ type: 'string', value, position: start });
+            continue;
+        }
+
+        const numberMatch = /^(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?/.exec(query.slice(i));
+        if (numberMatch) {
+            i += numberMatch[0].length;
+            tokens.push({ type: 'number', value: numberMatch[0], position: start });
+            continue;
+        }
+
+        const operatorMatch = /^(<>|!=|>=|<=|[=<>(),-])/.exec(query.slice(i));
+        if (operatorMatch) {
+            i += operatorMatch[0].length;
+            tokens.push({ type: 'operator', value: operatorMatch[0], position: start });
+            continue;
+        }
+
+        if (/[A-Za-z_$[]/.test(ch)) {
+            const path: Array<string | number> = [];
+            let expectSegment = true;
+
+            while (i < query.length) {
+                if (expectSegment && query[i] === '[') {
+                    // [property with spaces]
+                    const close = query.indexOf(']', i);
+                    if (close === -1) fail("missing ']'");
+                    path.push(query.slice(i + 1, close));
+                    i = close + 1;
+                    expectSegment = false;
+                } else if (expectSegment) {
+                    const word = /^[A-Za-z_$][\w$]*/.exec(query.slice(i));
+                    if (!word) fail('expected a property name');
+                    // "$.a.b" is a JSON path into the body, like body.a.b
+                    path.push(path.length === 0 && word![0] === '$' ? 'body' : word![0]);
+                    i += word![0].length;
+                    expectSegment = false;
+                } else if (query[i] === '.') {
+                    i++;
+                    expectSegment = true;
+                } else if (query[i] === '[' && /^\[\d+\]/.test(query.slice(i))) {
+                    // Array index in a body path
+                    const close = query.indexOf(']', i);
+                    path.push(Number(query.slice(i + 1, close)));
+                    i = close + 1;
+                } else {
+                    break;
+                }
+            }
+            if (expectSegment) fail('expected a property name after "."');
+
+            const word = query.slice(start, i);
+            if (path.length === 1 && typeof path[0] === 'string' && query[start] !== '[' && KEYWORDS.has(word.toUpperCase())) {
+                tokens.push({ type: 'keyword', value: word.toUpperCase(), position: start });
+            } else {
+                tokens.push({ type: 'identifier', value: word, path, position: start });
+            }
+            continue;
+        }
+
+        fail(`unexpected character '${ch}'`);
+    }
+
+    tokens.push({ type: 'end', value: '', position: query.length });
+    return tokens;
+}
+
+class QueryParser {
+    private index = 0;
+
+    constructor(private readonly tokens: Token[]) { }
+
+    parse(): Condition {
+        if (this.peek().type === 'end') {
+            this.fail('query is empty');
+        }
+        const condition = this.parseOr();
+        if (this.peek().type !== 'end') {
+            this.fail(`unexpected '${this.peek().value}'`);
+        }
+        return condition;
+    }
+
+    private parseOr(): Condition {
+        let left = this.parseAnd();
+        while (this.acceptKeyword('OR')) {
+            const l = left;
+            const right = this.parseAnd();
+            left = context => {
+                const a = l(context);
+                if (a === true) return true;
+                const b = right(context);
+                if (b === true) return true;
+                return a === null || b === null ? null : false;
+            };
+        }
+        return left;
+    }
+
+    private parseAnd(): Condition {
+        let left = this.parseNot();
+        while (this.acceptKeyword('AND')) {
+            const l = left;
+            const right = this.parseNot();
+            left = context => {
+                const a = l(context);
+                if (a === false) return false;
+                const b = right(context);
+                if (b === false) return false;
+                return a === null || b === null ? null : true;
+            };
+        }
+        return left;
+    }
+
+    private parseNot(): Condition {
+        if (this.acceptKeyword('NOT')) {
+            const inner = this.parseNot();
+            return context => {
+                const value = inner(context);
+                return value === null ? null : !value;
+            };
+        }
+        return this.parsePredicate();
+    }
+
+    private parsePredicate(): Condition {
+        if (this.acceptOperator('(')) {
+            const inner = this.parseOr();
+            this.expectOperator(')');
+            return inner;
+        }
+
+        if (this.acceptKeyword('EXISTS')) {
+            this.expectOperator('(');
+            const property = this.parseProperty();
+            this.expectOperator(')');
+            return context => property(context) !== undefined;
+        }
+
+        const left = this.parseOperand();
+        const token = this.peek();
+
+        if (token.type === 'operator' && COMPARISON_OPERATORS.has(token.value)) {
+            this.index++;
+            const right = this.parseOperand();
+            return context => compare(left(context), right(context), token.value);
+        }
+
+        if (this.acceptKeyword('IS')) {
+            const negate = this.acceptKeyword('NOT');
+            this.expectKeyword('NULL');
+            return context => {
+                const value = left(context);
+                const isNull = value === undefined || value === null;
+                return negate ? !isNull : isNull;
+            };
+        }
+
+        const negate = this.acceptKeyword('NOT');
+
+        if (this.acceptKeyword('LIKE')) {
+            const pattern = this.expectString();
+            const escape = this.acceptKeyword('ESCAPE') ? this.expectString() : undefined;
+            if (escape !== undefined && escape.length !== 1) {
+                this.fail('ESCAPE must be a single character', this.tokens[this.index - 1]);
+            }
+            const regex = likeToRegExp(pattern, escape);
+            return negated(negate, context => {
+                const value = left(context);
+                return typeof value === 'string' ? regex.test(value) : null;
+            });
+        }
+
+        if (this.acceptKeyword('MATCHES')) {
+            const patternToken = this.peek();
+            const regex = this.toRegExp(this.expectString(), patternToken);
+            return negated(negate, context => {
+                const text = toSearchText(left(context));
+                if (text === null) return null;
+                // The regex is shared by every message - a g or y flag would carry lastIndex over
+                regex.lastIndex = 0;
+                return regex.test(text);
+            });
+        }
+
+        if (this.acceptKeyword('IN')) {
+            this.expectOperator('(');
+            const values: Operand[] = [this.parseOperand()];
+            while (this.acceptOperator(',')) {
+                values.push(this.parseOperand());
+            }
+            this.expectOperator(')');
+            return negated(negate, context => {
+                const value = left(context);
+                let result: Truth = false;
+                for (const candidate of values) {
+                    const equal = compare(value, candidate(context), '=');
+                    if (equal === true) return true;
+                    if (equal === null) result = null;
+                }
+                return result;
+            });
+        }
+
+        if (negate) {
+            this.fail('expected LIKE, MATCHES or IN after NOT');
+        }
+
+        // A bare operand must be a boolean (e.g. user.isRetry, TRUE)
+        return context => {
+            const value = left(context);
+            return typeof value === 'boolean' ? value : null;
+        };
+    }
+
+    private parseOperand(): Operand {
+        const token = this.peek();
+
+        if (token.type === 'identifier') {
+            return this.parseProperty();
+        }
+
+        let value: unknown;
+        if (token.type === 'string') {
+            value = token.value;
+        } else if (token.type === 'number') {
+            value = Number(token.value);
+        } else if (token.type === 'operator' && token.value === '-' && this.tokens[this.index + 1].type === 'number') {
+            this.index++;
+            value = -Number(this.peek().value);
+        } else if (token.type === 'keyword' && (token.value === 'TRUE' || token.value === 'FALSE')) {
+            value = token.value === 'TRUE';
+        } else if (token.type === 'keyword' && token.value === 'NULL') {
+            value = null;
+        } else {
+            this.fail(token.type === 'end' ? 'unexpected end of query' : `unexpected '${token.value}'`);
+        }
+
+        this.index++;
+        return () => value;
+    }
+
+    private parseProperty(): Operand {
+        const token = this.peek();
+        if (token.type !== 'identifier') {
+            this.fail('expected a property name');
+        }
+        this.index++;
+
+        const path = token.path!;
+        const scope = typeof path[0] === 'string' ? path[0].toLowerCase() : '';
+
+        if (scope === 'sys' && path.length === 2) {
+            const getter = SYSTEM_PROPERTIES[String(path[1]).toLowerCase()];
+            if (!getter) {
+                this.fail(`unknown system property '${token.value}'`, token);
+            }
+            return context => getter(context.message);
+        }
+
+        if (scope === 'user' && path.length === 2) {
+            const name = String(path[1]);
+            return context => context.message.applicationProperties?.[name];
+        }
+
+        if (scope === 'body') {
+            if (path.length === 1) {
+                return context => context.message.body;
+            }
+            const segments = path.slice(1);
+            return context => readJsonPath(getBodyJson(context), segments);
+        }
+
+        if (path.length === 1) {
+            // Unqualified names are application properties, as in Service Bus filters
+            const name = String(path[0]);
+            return context => context.message.applicationProperties?.[name];
+        }
+
+        return this.fail(`unknown property '${token.value}' - use sys., user., body. or $.`, token);
+    }
+
+    private toRegExp(source: string, token: Token): RegExp {
+        // '/pattern/flags' or a bare pattern
+        const literal = /^\/(.*)\/([a-z]*)$/s.exec(source);
+        try {
+            return literal ? new RegExp(literal[1], literal[2]) : new RegExp(source);
+        } catch (err) {
+            return this.fail(`invalid regular expression - ${(err as Error).message}`, token);
+        }
+    }
+
+    private peek(): Token {
+        return this.tokens[this.index];
+    }
+
+    private acceptKeyword(keyword: string): boolean {
+        const token = this.peek();
+        if (token.type === 'keyword' && token.value === keyword) {
+            this.index++;
+            return true;
+        }
+        return false;
+    }
+
+    private expectKeyword(keyword: string): void {
+        if (!this.acceptKeyword(keyword)) {
+            this.fail(`expected ${keyword}`);
+        }
+    }
+
+    private acceptOperator(operator: string): boolean {
+        const token = this.peek();
+        if (token.type === 'operator' && token.value === operator) {
+            this.index++;
+            return true;
+        }
+        return false;
+    }
+
+    private expectOperator(operator: string): void {
+        if (!this.acceptOperator(operator)) {
+            this.fail(`expected '${operator}'`);
+        }
+    }
+
+    private expectString(): string {
+        const token = this.peek();
+        if (token.type !== 'string') {
+            this.fail('expected a quoted string');
+        }
+        this.index++;
+        return token.value;
+    }
+
+    private fail(message: string, token: Token = this.peek()): never {
+        throw new Error(`Invalid search query at position ${token.position + 1}: ${message}`);
+    }
+}
+
+function negated(negate: boolean, condition: Condition): Condition {
+    if (!negate) return condition;
+    return context => {
+        const value = condition(context);
+        return value === null ? null : !value;
+    };
+}
+
+/**
+ * Compare two values; null when either is missing or the types cannot be compared
+ */
+function compare(left: unknown, right: unknown, operator: string): Truth {
+    let a = normalize(left);
+    let b = normalize(right);
+    if (a === null || b === null) return null;
+
+    // Dates compare with ISO strings or epoch milliseconds
+    if (a instanceof Date || b instanceof Date) {
+        a = toDate(a)?.getTime() ?? null;
+        b = toDate(b)?.getTime() ?? null;
+        if (a === null || b === null) return null;
+    } else if (typeof a === 'number' && typeof b === 'string' && b.trim() !== '' && !isNaN(Number(b))) {
+        b = Number(b);
+    } else if (typeof b === 'number' && typeof a === 'string' && a.trim() !== '' && !isNaN(Number(a))) {
+        a = Number(a);
+    }
+
+    if (typeof a !== typeof b || typeof a === 'object') {
+        return null;
+    }
+
+    switch (operator) {
+        case '=': return a === b;
+        case '<>':
+        case '!=': return a !== b;
+    }
+
+    if (typeof a === 'boolean') return null;
+    switch (operator) {
+        case '>': return (a as any) > (b as any);
+        case '>=': return (a as any) >= (b as any);
+        case '<': return (a as any) < (b as any);
+        case '<=': return (a as any) <= (b as any);
+    }
+    return null;
+}
+
+function normalize(value: unknown): unknown {
+    if (value === undefined || value === null) return null;
+    if (typeof value === 'bigint') return Number(value);
+    return value;
+}
+
+function toDate(value: unknown): Date | undefined {
+    if (value instanceof Date) return isNaN(value.getTime()) ? undefined : value;
+    if (typeof value === 'number') return new Date(value);
+    if (typeof value === 'string' && value) {
+        const time = Date.parse(value);
+        return isNaN(time) ? undefined : new Date(time);
+    }
+    return undefined;
+}
+
+function toSearchText(value: unknown): string | null {
+    if (value === undefined || value === null) return null;
+    if (typeof value === 'string') return value;
+    if (value instanceof Date) return value.toISOString();
+    if (typeof value === 'object') return JSON.stringify(value);
+    return String(value);
+}
+
+/**
+ * LIKE pattern to an anchored regex - % is any run of characters, _ any single character
+ */
+function likeToRegExp(pattern: string, escape?: string): RegExp {
+    let source = '';
+    for (let i = 0; i < pattern.length; i++) {
+        const ch = pattern[i];
+        if (escape !== undefined && ch === escape && i + 1 < pattern.length) {
+            source += escapeRegExp(pattern[++i]);
+        } else if (ch === '%') {
+            source += '.*';
+        } else if (ch === '_') {
+            source += '.';
+        } else {
+            source += escapeRegExp(ch);
+        }
+    }
+    return new RegExp(`^${source}$`, 's');
+}
+
+function escapeRegExp(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+}
+
+function getBodyJson(context: EvaluationContext): unknown {
+    if (!context.json) {
+        const { message } = context;
+        let value: unknown = undefined;
+        if (message.bodyType === 'value') {
+            value = message.bodyValue;
+        } else {
+            try {
+                value = JSON.parse(message.body);
+            } catch {
+                // Not a JSON body - every path is missing
+            }
+        }
+        context.json = { value };
+    }
+    return context.json.value;
+}
+
+function readJsonPath(value: unknown, segments: Array<string | number>): unknown {
+    for (const segment of segments) {
+        if (value === null || typeof value !== 'object') return undefined;
+        value = (value as any)[segment];
+    }
+    return value;
+}
@@ -1,32 +1,47 @@
-import { ServiceBusConnection } from './connection.js';
 import { MessageSender } from './messageSender.js';
-import { ManagementClient } from './managementClient.js';
-import type { MessageProperties } from './types.js';
+import { acquireConnection, acquireManagementClient } from './connectionPool.js';
+import type { ConnectionLease, ManagementClientLease } from './connectionPool.js';
+import { message as rheaMessage } from 'rhea';
+import { base64ToBytes } from './messageParser.js';
+import type { Transaction } from './transaction.js';
+import type {
+    MessageProperties,
+    SessionBatchMessage,
+    SessionAssignment,
+    SessionBatchResult,
+    ServiceBusMessage,
+    BatchOperationResult,
+    ResubmitOptions
+} from './types.js';
 
 /**
  * Send a message to a queue
+ * @param transaction - Send inside a transaction from beginTransaction (same namespace and token)
  */
 export async function sendQueueMessage(
     namespace: string,
     queueName: string,
     token: string,
     messageBody: string | object | Uint8Array | ArrayBuffer,
-    properties: MessageProperties = {}
+    properties: MessageProperties = {},
+    transaction?: Transaction
 ): Promise<void> {
-    return await sendMessage(namespace, queueName, token, messageBody, properties);
+    return await sendMessage(namespace, queueName, token, messageBody, properties, transaction);
 }
 
 /**
  * Send a message to a topic
+ * @param transaction - Send inside a transaction from beginTransaction (same namespace and token)
  */
 export async function sendTopicMessage(
     namespace: string,
     topicName: string,
     token: string,
     messageBody: string | object | Uint8Array | ArrayBuffer,
-    properties: MessageProperties = {}
+    properties: MessageProperties = {},
+    transaction?: Transaction
 ): Promise<void> {
-    return await sendMessage(namespace, topicName, token, messageBody, properties);
+    return await sendMessage(namespace, topicName, token, messageBody, properties, transaction);
 }
 
 // Internal implementation
@@ -35,27 +50,30 @@ async function sendMessage(
     entityPath: string,
     token: string,
     messageBody: string | object | Uint8Array | ArrayBuffer | null | undefined,
-    properties: MessageProperties = {}
+    properties: MessageProperties = {},
+    transaction?: Transaction
 ): Promise<void> {
-    const connection = new ServiceBusConnection(namespace, token);
+    let lease: ConnectionLease | null = null;
+    let sender: MessageSender | null = null;
 
     try {
-        await connection.connect();
-        await connection.authenticateCBS(entityPath);
+        lease = await acquireConnection(namespace, token, entityPath);
         console.log(`[ServiceBusAPI] Auth success for ${entityPath}`);
 
-        const sender = new MessageSender(connection, entityPath);
+        sender = new MessageSender(lease.connection, entityPath);
         await sender.open();
         console.log(`[ServiceBusAPI] Sender opened for ${entityPath}`);
         const messageProps: MessageProperties = { ...properties };
-        let bodyToSend: string;
+        let bodyToSend: unknown;
 
-        if (typeof messageBody === 'string') {
+        if (messageProps.body_type === 'value' || messageProps.body_type === 'sequence') {
+            bodyToSend = messageBody; // Structured - encoded by the sender as-is
+        } else if (typeof messageBody === 'string') {
             bodyToSend = messageBody;
         } else if (messageBody instanceof Uint8Array) {
-            bodyToSend = new TextDecoder().decode(messageBody);
+            bodyToSend = messageBody;
         } else if (messageBody instanceof ArrayBuffer) {
-            bodyToSend = new TextDecoder().decode(new Uint8Array(messageBody));
+            bodyToSend = new Uint8Array(messageBody);
         } else if (messageBody !== null && messageBody !== undefined) {
             bodyToSend = JSON.stringify(messageBody);
             if (!messageProps.content_type && !messageProps.contentType) {
@@ -65,16 +83,20 @@ async function sendMessage(
             bodyToSend = '';
         }
 
-        await sender.send(bodyToSend, messageProps);
+        await sender.send(bodyToSend, messageProps, transaction);
 
         sender.close();
-        connection.close();
+        lease.release();
     } catch (err) {
-        connection.close();
+        sender?.close();
+        lease?.release();
         throw new Error(`Send failed: ${(err as Error).message}`);
     }
 }
 
+// Batch entry - bodyBase64 (raw bytes, e.g. from a peeked binary message) wins over body
+type BatchMessage = { body: string | object | Uint8Array | null | undefined; bodyBase64?: string; properties?: MessageProperties };
+
 /**
  * Send multiple messages to a queue in batch (single connection)
  */
@@ -82,7 +104,7 @@ export async function sendQueueMessageBatch(
     namespace: string,
     queueName: string,
     token: string,
-    messages: { body: string | object | null | undefined; properties?: MessageProperties }[]
+    messages: BatchMessage[]
 ): Promise<void> {
     return await sendMessageBatch(namespace, queueName, token, messages);
 }
@@ -94,7 +116,7 @@ export async function sendTopicMessageBatch(
     namespace: string,
     topicName: string,
     token: string,
-    messages: { body: string | object | null | undefined; properties?: MessageProperties }[]
+    messages: BatchMessage[]
 ): Promise<void> {
     return await sendMessageBatch(namespace, topicName, token, messages);
 }
@@ -104,53 +126,26 @@ async function sendMessageBatch(
     namespace: string,
     entityPath: string,
     token: string,
-    messages: { body: string | object | null | undefined; properties?: MessageProperties }[]
+    messages: BatchMessage[]
 ): Promise<void> {
-    const connection = new ServiceBusConnection(namespace, token);
+    let lease: ConnectionLease | null = null;
+    let sender: MessageSender | null = null;
 
     try {
-        await connection.connect();
-        await connection.authenticateCBS(entityPath);
+        lease = await acquireConnection(namespace, token, entityPath);
 
-        const sender = new MessageSender(connection, entityPath);
+        sender = new MessageSender(lease.connection, entityPath);
         await sender.open();
 
-        const preparedMessages = messages.map(msg => {
-            // Check if it's already a wrapped object from C# { body, properties }
-            // or a raw message body (string/object)
-            let rawBody: any;
-            let rawProps: MessageProperties = {};
-
-            if (msg && typeof msg === 'object' && ('body' in msg || 'properties' in msg)) {
-                rawBody = msg.body;
-                rawProps = msg.properties || {};
-            } else {
-                rawBody = msg;
-            }
-
-            const messageProps: MessageProperties = { ...rawProps };
-            let bodyToSend: string;
-
-            if (typeof rawBody === 'string') {
-                bodyToSend = rawBody;
-            } else if (rawBody !== null && rawBody !== undefined) {
-                bodyToSend = JSON.stringify(rawBody);
-                if (!messageProps.content_type) {
-                    messageProps.content_type = 'application/json; charset=utf-8';
-                }
-            } else {
-                bodyToSend = '';
-            }
-
-            return { body: bodyToSend, properties: messageProps };
-        });
+        const preparedMessages = messages.map(prepareBatchMessage);
 
         await sender.sendBatch(preparedMessages);
 
         sender.close();
-        connection.close();
+        lease.release();
     } catch (err: any) {
-        connection.close();
+        sender?.close();
+        lease?.release();
         // Extract error message properly from various error types
         let errorMsg = 'Unknown error';
         if (err) {
@@ -175,6 +170,374 @@ async function sendMessageBatch(
     }
 }
 
+// Sessions sent side by side in a session-aware batch; messages within a session go one at a time
+const SESSION_SEND_CONCURRENCY = 8;
+
+/**
+ * Send multiple messages to a session-enabled queue, grouped per session.
+ * Messages within a session are sent in order; a failure stops the rest of that session.
+ * @param assignment - Session ID rule for messages without their own sessionId
+ */
+export async function sendQueueSessionMessageBatch(
+    namespace: string,
+    queueName: string,
+    token: string,
+    messages: SessionBatchMessage[],
+    assignment?: SessionAssignment
+): Promise<SessionBatchResult> {
+    return await sendSessionMessageBatch(namespace, queueName, token, messages, assignment);
+}
+
+/**
+ * Send multiple messages to a topic with session-enabled subscriptions, grouped per session
+ */
+export async function sendTopicSessionMessageBatch(
+    namespace: string,
+    topicName: string,
+    token: string,
+    messages: SessionBatchMessage[],
+    assignment?: SessionAssignment
+): Promise<SessionBatchResult> {
+    return await sendSessionMessageBatch(namespace, topicName, token, messages, assignment);
+}
+
+// Internal session-aware batch send implementation
+async function sendSessionMessageBatch(
+    namespace: string,
+    entityPath: string,
+    token: string,
+    messages: SessionBatchMessage[],
+    assignment?: SessionAssignment
+): Promise<SessionBatchResult> {
+    const result: SessionBatchResult = {
+        successCount: 0,
+        failureCount: 0,
+        errors: [],
+        sessions: []
+    };
+
+    // Group in original order - Map iteration keeps first-seen session order
+    const groups = new Map<string, { body: unknown; properties: MessageProperties }[]>();
+    let roundRobinIndex = 0;
+    messages.forEach((msg, index) => {
+        // Known before preparing, so a message that fails to prepare (e.g. bad bodyBase64) is still named
+        const messageId = msg.properties?.message_id || `#${index}`;
+        try {
+            const prepared = prepareBatchMessage(msg);
+            const sessionId = msg.sessionId
+                ?? prepared.properties.session_id
+                ?? prepared.properties.group_id
+                ?? assignSessionId(msg.body, assignment, roundRobinIndex++);
+
+            prepared.properties.session_id = sessionId;
+            delete prepared.properties.group_id;
+
+            const group = groups.get(sessionId) ?? [];
+            group.push(prepared);
+            groups.set(sessionId, group);
+        } catch (err) {
+            result.failureCount++;
+            result.errors.push({ messageId, error: (err as Error).message });
+        }
+    });
+
+    if (groups.size === 0) {
+        return result;
+    }
+
+    let lease: ConnectionLease | null = null;
+    let sender: MessageSender | null = null;
+
+    try {
+        lease = await acquireConnection(namespace, token, entityPath);
+
+        sender = new MessageSender(lease.connection, entityPath);
+        await sender.open();
+        const openSender = sender;
+
+        // Reported in first-seen order regardless of completion order
+        result.sessions = Array.from(groups.keys()).map(sessionId => ({ sessionId, successCount: 0, failureCount: 0 }));
+
+        const sendSession = async (sessionResult: SessionBatchResult['sessions'][number]) => {
+            const sessionId = sessionResult.sessionId;
+            const group = groups.get(sessionId)!;
+
+            for (let i = 0; i < group.length; i++) {
+                try {
+                    await openSender.send(group[i].body, group[i].properties);
+                    sessionResult.successCount++;
+                } catch (err) {
+                    // Stop here so later messages never overtake the failed one
+                    const error = (err as Error).message;
+                    sessionResult.error = error;
+                    sessionResult.failureCount = group.length - i;
+                    for (const skipped of group.slice(i)) {
+                        result.errors.push({
+                            messageId: skipped.properties.message_id || sessionId,
+                            error: skipped === group[i] ? error : `Not sent: earlier message in session ${sessionId} failed`
+                        });
+                    }
+                    break;
+                }
+            }
+
+            result.successCount += sessionResult.successCount;
+            result.failureCount += sessionResult.failureCount;
+        };
+
+        let next = 0;
+        const workers = Array.from({ length: Math.min(SESSION_SEND_CONCURRENCY, result.sessions.length) }, async () => {
+            while (next < result.sessions.length) {
+                await sendSession(result.sessions[next++]);
+            }
+        });
+        await Promise.all(workers);
+
+        sender.close();
+        lease.release();
+    } catch (err) {
+        sender?.close();
+        lease?.release();
+        throw new Error(`Session batch send failed: ${(err as Error).message}`);
+    }
+
+    return result;
+}
+
+// Annotations the broker assigns on enqueue - never sent back
+const BROKER_ANNOTATIONS = [
+    'x-opt-sequence-number',
+    'x-opt-enqueue-sequence-number',
+    'x-opt-enqueued-time',
+    'x-opt-locked-until',
+    'x-opt-lock-token',
+    'x-opt-state',
+    'x-opt-message-state'
+];
+const DEAD_LETTER_ANNOTATIONS = ['x-opt-deadletter-source'];
+const DEAD_LETTER_PROPERTIES = ['DeadLetterReason', 'DeadLetterErrorDescription'];
+
+// AMQP properties section fields carried over from the original message
+const RESUBMIT_PROPERTY_FIELDS = ['user_id', 'content_encoding', 'reply_to_group_id', 'group_sequence'];
+
+/**
+ * Resubmit peeked messages to a queue, rebuilt exactly as they were sent
+ * (message id, correlation, session, TTL, creation time, properties and body section)
+ * @param transaction - Resubmit inside a transaction, e.g. together with completing the DLQ originals
+ */
+export async function resubmitQueueMessages(
+    namespace: string,
+    queueName: string,
+    token: string,
+    messages: ServiceBusMessage[],
+    options: ResubmitOptions = {},
+    transaction?: Transaction
+): Promise<BatchOperationResult> {
+    return await resubmitMessages(namespace, queueName, token, messages, options, transaction);
+}
+
+/**
+ * Resubmit peeked messages to a topic, rebuilt exactly as they were sent
+ */
+export async function resubmitTopicMessages(
+    namespace: string,
+    topicName: string,
+    token: string,
+    messages: ServiceBusMessage[],
+    options: ResubmitOptions = {},
+    transaction?: Transaction
+): Promise<BatchOperationResult> {
+    return await resubmitMessages(namespace, topicName, token, messages, options, transaction);
+}
+
+// Internal resubmit implementation
+async function resubmitMessages(
+    namespace: string,
+    entityPath: string,
+    token: string,
+    messages: ServiceBusMessage[],
+    options: ResubmitOptions,
+    transaction?: Transaction
+): Promise<BatchOperationResult> {
+    const result: BatchOperationResult = {
+        successCount: 0,
+        failureCount: 0,
+        errors: []
+    };
+
+    let lease: ConnectionLease | null = null;
+    let sender: MessageSender | null = null;
+
+    try {
+        lease = await acquireConnection(namespace, token, entityPath);
+
+        sender = new MessageSender(lease.connection, entityPath);
+        await sender.open();
+
+        // One at a time, so the resubmitted messages keep their relative order
+        for (const message of messages) {
+            try {
+                await sender.sendAmqpMessage(rebuildAmqpMessage(message, options), transaction);
+                result.successCount++;
+            } catch (err) {
+                result.failureCount++;
+                result.errors.push({
+                    messageId: message.messageId ?? String(message.sequenceNumber ?? ''),
+                    error: (err as Error).message
+                });
+            }
+        }
+
+        sender.close();
+        lease.release();
+    } catch (err) {
+        sender?.close();
+        lease?.release();
+        throw new Error(`Resubmit failed: ${(err as Error).message}`);
+    }
+
+    return result;
+}
+
+/**
+ * Rebuild the AMQP message a peeked message was created from
+ */
+export function rebuildAmqpMessage(message: ServiceBusMessage, options: ResubmitOptions): any {
+    const amqpMessage: any = {};
+
+    const originalProps = message.properties || {};
+    for (const field of RESUBMIT_PROPERTY_FIELDS) {
+        if (originalProps[field] !== undefined && originalProps[field] !== null) {
+            amqpMessage[field] = originalProps[field];
+        }
+    }
+
+    if (message.messageId !== undefined) amqpMessage.message_id = message.messageId;
+    if (message.correlationId !== undefined) amqpMessage.correlation_id = message.correlationId;
+    if (message.contentType !== undefined) amqpMessage.content_type = message.contentType;
+    if (message.subject !== undefined) amqpMessage.subject = message.subject;
+    if (message.replyTo !== undefined) amqpMessage.reply_to = message.replyTo;
+    if (message.to !== undefined) amqpMessage.to = message.to;
+    if (message.sessionId !== undefined) amqpMessage.group_id = message.sessionId;
+    if (message.ttl !== undefined) amqpMessage.ttl = message.ttl;
+    if (message.creationTime !== undefined) amqpMessage.creation_time = new Date(message.creationTime);
+
+    // Body, in the section it arrived in
+    const bodyType = message.bodyType ?? 'data';
+    if (bodyType === 'value') {
+        // A binary amqp-value only carries its bytes in bodyBase64
+        amqpMessage.body = message.bodyValue === undefined && message.bodyBase64 !== undefined
+            ? base64ToBytes(message.bodyBase64)
+            : message.bodyValue ?? null;
+    } else if (bodyType === 'sequence') {
+        const sections = message.bodyValue as unknown[][];
+        amqpMessage.body = sections.length === 1 ? rheaMessage.sequence_section(sections[0]) : rheaMessage.sequence_sections(sections);
+    } else {
+        const bytes = message.bodyBase64 !== undefined
+            ? base64ToBytes(message.bodyBase64)
+            : new TextEncoder().encode(message.body ?? '');
+        amqpMessage.body = rheaMessage.data_section(bytes);
+    }
+
+    const annotations: Record<string, any> = {};
+    for (const [key, value] of Object.entries(message.messageAnnotations || {})) {
+        if (BROKER_ANNOTATIONS.includes(key)) continue;
+        if (options.stripDeadLetterProperties && DEAD_LETTER_ANNOTATIONS.includes(key)) continue;
+        annotations[key] = value;
+    }
+    if (Object.keys(annotations).length > 0) {
+        amqpMessage.message_annotations = annotations;
+    }
+
+    const appProps: Record<string, any> = { ...(message.applicationProperties || {}) };
+    if (options.stripDeadLetterProperties) {
+        for (const key of DEAD_LETTER_PROPERTIES) {
+            delete appProps[key];
+        }
+    }
+    if (options.stampBussin) {
+        appProps['x-bussin-sent-via'] = 'bussin.dev';
+        appProps['x-bussin-sent-at'] = new Date().toISOString();
+    }
+    amqpMessage.application_properties = appProps;
+
+    return amqpMessage;
+}
+
+/**
+ * Resolve the session ID for a message without one, from the batch's assignment rule
+ */
+function assignSessionId(body: unknown, assignment: SessionAssignment | undefined, roundRobinIndex: number): string {
+    if (!assignment) {
+        throw new Error('Message has no session ID and no session assignment was given');
+    }
+
+    if (assignment.type === 'roundRobin') {
+        if (!(assignment.sessionCount >= 1)) {
+            throw new Error('Round-robin session assignment needs a sessionCount of at least 1');
+        }
+        return `${assignment.prefix ?? 'session-'}${roundRobinIndex % assignment.sessionCount}`;
+    }
+
+    let value: unknown = body;
+    if (typeof value === 'string') {
+        try {
+            value = JSON.parse(value);
+        } catch {
+            throw new Error(`Cannot read ${assignment.path} - message body is not JSON`);
+        }
+    }
+
+    // "$.a.b[0].c" -> ['a', 'b', '0', 'c']
+    const segments = assignment.path.replace(/^\$\.?/, '').replace(/\[(\w+)\]/g, '.$1').split('.').filter(Boolean);
+    for (const segment of segments) {
+        value = value !== null && typeof value === 'object' ? (value as any)[segment] : undefined;
+    }
+
+    if (value === null || value === undefined || typeof value === 'object' || value === '') {
+        throw new Error(`No session ID at ${assignment.path}`);
+    }
+    return String(value);
+}
+
+/**
+ * Normalize a batch entry to a string body plus properties.
+ * Entries are either wrapped objects from C# { body, properties } or raw bodies (string/object).
+ */
+function prepareBatchMessage(msg: any): { body: unknown; properties: MessageProperties } {
+    let rawBody: any;
+    let rawProps: MessageProperties = {};
+
+    if (msg && typeof msg === 'object' && !(msg instanceof Uint8Array) && ('body' in msg || 'bodyBase64' in msg || 'properties' in msg)) {
+        rawBody = typeof msg.bodyBase64 === 'string' ? base64ToBytes(msg.bodyBase64) : msg.body;
+        rawProps = msg.properties || {};
+    } else {
+        rawBody = msg;
+    }
+
+    const messageProps: MessageProperties = { ...rawProps };
+    let bodyToSend: unknown;
+
+    if (messageProps.body_type === 'value' || messageProps.body_type === 'sequence') {
+        bodyToSend = rawBody; // Structured - encoded by the sender as-is
+    } else if (typeof rawBody === 'string') {
+        bodyToSend = rawBody;
+    } else if (rawBody instanceof Uint8Array) {
+        bodyToSend = rawBody;
+    } else if (rawBody instanceof ArrayBuffer) {
+        bodyToSend = new Uint8Array(rawBody);
+    } else if (rawBody !== null && rawBody !== undefined) {
+        bodyToSend = JSON.stringify(rawBody);
+        if (!messageProps.content_type) {
+            messageProps.content_type = 'application/json; charset=utf-8';
+        }
+    } else {
+        bodyToSend = '';
+    }
+
+    return { body: bodyToSend, properties: messageProps };
+}
+
 /**
  * Cancel scheduled messages from a queue by sequence numbers
  */
@@ -206,21 +569,16 @@ async function cancelScheduledMessages(
     token: string,
     sequenceNumbers: number[]
 ): Promise<void> {
-    const connection = new ServiceBusConnection(namespace, token);
+    let lease: ManagementClientLease | null = null;
 
     try {
-        await connection.connect();
-        await connection.authenticateCBS(entityPath);
-
-        const managementClient = new ManagementClient(connection, entityPath);
-        await managementClient.open();
+        lease = await acquireManagementClient(namespace, token, entityPath);
 
-        await managementClient.cancelScheduledMessages(sequenceNumbers);
+        await lease.client.cancelScheduledMessages(sequenceNumbers);
 
-        managementClient.close();
-        connection.close();
+        lease.release();
     } catch (err) {
-        connection.close();
+        lease?.release(true);
         throw new Error(`Cancel scheduled messages failed: ${(err as Error).message}`);
     }
 }
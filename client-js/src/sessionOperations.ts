@@ -0,0 +1,218 @@
+import type { ServiceBusConnection } from './connection.js';
+import type { ManagementClient } from './managementClient.js';
+import { acquireManagementClient } from './connectionPool.js';
+import type { ManagementClientLease } from './connectionPool.js';
+import type { SessionState, SessionStateFormat } from './types.js';
+import { formatAmqpError } from './types.js';
+import { bytesToBase64, base64ToBytes } from './messageParser.js';
+
+// How long to wait for the broker to grant the session lock
+const SESSION_LOCK_TIMEOUT_MS = 10 * 1000;
+
+/**
+ * Get the state of a queue session
+ */
+export async function getQueueSessionState(
+    namespace: string,
+    queueName: string,
+    token: string,
+    sessionId: string
+): Promise<SessionState> {
+    return getSessionState(namespace, queueName, token, sessionId);
+}
+
+/**
+ * Get the state of a subscription session
+ */
+export async function getSubscriptionSessionState(
+    namespace: string,
+    topicName: string,
+    subscriptionName: string,
+    token: string,
+    sessionId: string
+): Promise<SessionState> {
+    const entityPath = `${topicName}/subscriptions/${subscriptionName}`;
+    return getSessionState(namespace, entityPath, token, sessionId);
+}
+
+/**
+ * Set (or clear, with null) the state of a queue session
+ * @param format - 'text' stores the string as UTF-8, 'json' stores a value or JSON string,
+ *                 'base64' stores the decoded bytes
+ */
+export async function setQueueSessionState(
+    namespace: string,
+    queueName: string,
+    token: string,
+    sessionId: string,
+    state: string | object | null,
+    format: SessionStateFormat = 'text'
+): Promise<SessionState> {
+    return setSessionState(namespace, queueName, token, sessionId, state, format);
+}
+
+/**
+ * Set (or clear, with null) the state of a subscription session
+ */
+export async function setSubscriptionSessionState(
+    namespace: string,
+    topicName: string,
+    subscriptionName: string,
+    token: string,
+    sessionId: string,
+    state: string | object | null,
+    format: SessionStateFormat = 'text'
+): Promise<SessionState> {
+    const entityPath = `${topicName}/subscriptions/${subscriptionName}`;
+    return setSessionState(namespace, entityPath, token, sessionId, state, format);
+}
+
+async function getSessionState(
+    namespace: string,
+    entityPath: string,
+    token: string,
+    sessionId: string
+): Promise<SessionState> {
+    try {
+        const data = await withSessionLock(namespace, entityPath, token, sessionId,
+            (client, linkName) => client.getSessionState(sessionId, linkName));
+        return toSessionState(sessionId, data);
+    } catch (err) {
+        throw new Error(`Get session state failed: ${(err as Error).message}`);
+    }
+}
+
+async function setSessionState(
+    namespace: string,
+    entityPath: string,
+    token: string,
+    sessionId: string,
+    state: string | object | null,
+    format: SessionStateFormat
+): Promise<SessionState> {
+    try {
+        const data = encodeSessionState(state, format);
+        await withSessionLock(namespace, entityPath, token, sessionId,
+            (client, linkName) => client.setSessionState(sessionId, data, linkName));
+        return toSessionState(sessionId, data);
+    } catch (err) {
+        throw new Error(`Set session state failed: ${(err as Error).message}`);
+    }
+}
+
+/**
+ * Run a management operation while holding the session lock.
+ * The broker only accepts session state requests from the link that owns the session,
+ * so a session receiver (without credit) is attached for the duration of the call.
+ */
+async function withSessionLock<T>(
+    namespace: string,
+    entityPath: string,
+    token: string,
+    sessionId: string,
+    operation: (client: ManagementClient, associatedLinkName: string) => Promise<T>
+): Promise<T> {
+    let lease: ManagementClientLease | null = null;
+    let receiver: any = null;
+    try {
+        lease = await acquireManagementClient(namespace, token, entityPath);
+        receiver = await openSessionReceiver(lease.connection, entityPath, sessionId);
+
+        const result = await operation(lease.client, receiver.name);
+
+        lease.release();
+        return result;
+    } catch (err) {
+        lease?.release(true);
+        throw err;
+    } finally {
+        // Detaching the receiver releases the session lock
+        try { receiver?.close(); } catch {}
+    }
+}
+
+function openSessionReceiver(connection: ServiceBusConnection, entityPath: string, sessionId: string): Promise<any> {
+    return new Promise((resolve, reject) => {
+        const filterMap: Record<string, any> = {};
+        filterMap['com.microsoft:session-filter'] = sessionId;
+
+        const receiver = connection.connection!.open_receiver({
+            source: { address: entityPath, filter: filterMap },
+            credit_window: 0,  // Lock the session without taking any messages
+            autoaccept: false,
+            rcv_settle_mode: 1
+        });
+
+        const timeout = setTimeout(() => {
+            try { receiver.close(); } catch {}
+            reject(new Error('Session lock request timeout'));
+        }, SESSION_LOCK_TIMEOUT_MS);
+
+        receiver.once('receiver_open', () => {
+            clearTimeout(timeout);
+            resolve(receiver);
+        });
+        receiver.once('receiver_error', (context: any) => {
+            clearTimeout(timeout);
+            reject(new Error(context.receiver.error ? formatAmqpError(context.receiver.error) : 'Receiver error'));
+        });
+    });
+}
+
+function encodeSessionState(state: string | object | null, format: SessionStateFormat): Uint8Array | null {
+    if (state === null || state === undefined) {
+        return null;
+    }
+
+    if (format === 'json') {
+        let json: string;
+        if (typeof state === 'string') {
+            JSON.parse(state); // Validate before storing
+            json = state;
+        } else {
+            json = JSON.stringify(state);
+        }
+        return new TextEncoder().encode(json);
+    }
+
+    if (typeof state !== 'string') {
+        throw new Error(`Session state in '${format}' format must be a string`);
+    }
+
+    if (format === 'base64') {
+        return base64ToBytes(state);
+    }
+
+    return new TextEncoder().encode(state);
+}
+
+function toSessionState(sessionId: string, data: Uint8Array | null): SessionState {
+    if (!data) {
+        return { sessionId, hasState: false, size: 0, base64: '', text: null, json: undefined };
+    }
+
+    let text: string | null = null;
+    try {
+        text = new TextDecoder('utf-8', { fatal: true }).decode(data);
+    } catch {
+        // Binary state - only the base64 view applies
+    }
+
+    let json: unknown = undefined;
+    if (text !== null && text.trim()) {
+        try {
+            json = JSON.parse(text);
+        } catch {
+            // Plain text state
+        }
+    }
+
+    return {
+        sessionId,
+        hasState: true,
+        size: data.length,
+        base64: bytesToBase64(data),
+        text,
+        json
+    };
+}
@@ -0,0 +1,324 @@
+/**
+ * Service Bus Transactions
+ * AMQP local transactions, declared and discharged over the connection's coordinator link
+ */
+
+import rhea from 'rhea';
+import type { ServiceBusConnection } from './connection.js';
+import { formatAmqpError } from './types.js';
+
+// Described type codes from the AMQP 1.0 transactions spec (part 4)
+const COORDINATOR_DESCRIPTOR = 0x30;
+const DECLARE_DESCRIPTOR = 0x31;
+const DISCHARGE_DESCRIPTOR = 0x32;
+const DECLARED_DESCRIPTOR = 0x33;
+const TRANSACTIONAL_STATE_DESCRIPTOR = 0x34;
+const TRANSFER_DESCRIPTOR = 0x14;
+// Position of the delivery state in the transfer performative
+const TRANSFER_STATE_INDEX = 7;
+
+const LOCAL_TRANSACTIONS_CAPABILITY = 'amqp:local-transactions';
+const COORDINATOR_TIMEOUT_MS = 10000;
+// A request that times out may still have reached the coordinator
+const REQUEST_TIMEOUT_MESSAGE = 'Transaction request timeout';
+
+// Sessions whose outgoing transfers already carry transactional state
+const patchedSessions = new WeakSet<object>();
+
+/**
+ * Coordinator link of one connection - declares and discharges its transactions
+ */
+export class TransactionCoordinator {
+    private readonly connection: ServiceBusConnection;
+    private sender: any = null;
+    private opening: Promise<void> | null = null;
+
+    constructor(connection: ServiceBusConnection) {
+        this.connection = connection;
+    }
+
+    /**
+     * Declare a new transaction
+     */
+    async declare(): Promise<Transaction> {
+        await this.open();
+        const outcome = await this.request(rhea.types.wrap_described([], DECLARE_DESCRIPTOR));
+        const txnId = readDeclaredTxnId(outcome);
+        if (!txnId) {
+            throw new Error('Coordinator did not declare a transaction');
+        }
+        return new Transaction(this, this.connection, txnId);
+    }
+
+    /**
+     * Discharge a transaction - commit, or roll back when fail is true
+     */
+    async discharge(txnId: Uint8Array, fail: boolean): Promise<void> {
+        await this.open();
+        await this.request(rhea.types.wrap_described(
+            [rhea.types.wrap_binary(txnId), rhea.types.wrap_boolean(fail)],
+            DISCHARGE_DESCRIPTOR
+        ));
+    }
+
+    /**
+     * Detach the coordinator link (the broker rolls back undischarged transactions)
+     */
+    close(): void {
+        if (this.sender) {
+            try { this.sender.close(); } catch { }
+        }
+        this.sender = null;
+        this.opening = null;
+    }
+
+    private open(): Promise<void> {
+        if (!this.opening) {
+            this.opening = this.openLink();
+            this.opening.catch(() => { this.opening = null; });
+        }
+        return this.opening;
+    }
+
+    private openLink(): Promise<void> {
+        if (!this.connection.connection) {
+            return Promise.reject(new Error('Connection not established'));
+        }
+
+        return new Promise((resolve, reject) => {
+            const sender: any = this.connection.connection!.open_sender({
+                name: `coordinator-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+                target: { capabilities: [LOCAL_TRANSACTIONS_CAPABILITY] }
+            });
+
+            // rhea has no coordinator terminus: swap it in before the attach goes out (on the next tick)
+            if (sender.local?.attach) {
+                sender.local.attach.target = rhea.types.wrap_described(
+                    [rhea.types.wrap_symbol(LOCAL_TRANSACTIONS_CAPABILITY)],
+                    COORDINATOR_DESCRIPTOR
+                );
+            }
+
+            const timeout = setTimeout(() => reject(new Error('Coordinator open timeout')), COORDINATOR_TIMEOUT_MS);
+
+            sender.once('sender_open', () => {
+                clearTimeout(timeout);
+                this.sender = sender;
+                resolve();
+            });
+
+            sender.on('sender_error', (context: any) => {
+                clearTimeout(timeout);
+                reject(new Error(context.sender.error ? formatAmqpError(context.sender.error) : 'Coordinator error'));
+            });
+
+            sender.on('sender_close', () => {
+                if (this.sender === sender) {
+                    this.sender = null;
+                    this.opening = null;
+                }
+            });
+        });
+    }
+
+    /**
+     * Send a declare/discharge body and wait for its outcome
+     */
+    private request(body: any): Promise<any> {
+        const sender = this.sender;
+        if (!sender) {
+            return Promise.reject(new Error('Coordinator link not open'));
+        }
+
+        return new Promise((resolve, reject) => {
+            let settled = false;
+            let delivery: any;
+
+            const finish = (error: Error | null, outcome?: any) => {
+                if (settled) return;
+                settled = true;
+                clearTimeout(timeout);
+                sender.removeListener('accepted', onAccepted);
+                sender.removeListener('rejected', onRejected);
+                sender.removeListener('settled', onSettled);
+                if (error) {
+                    reject(error);
+                } else {
+                    resolve(outcome);
+                }
+            };
+
+            const onAccepted = (context: any) => {
+                if (context.delivery === delivery) finish(null, context.delivery.remote_state);
+            };
+            const onRejected = (context: any) => {
+                if (context.delivery !== delivery) return;
+                const error = context.delivery.remote_state?.error;
+                finish(new Error(error ? formatAmqpError(error) : 'Transaction request rejected'));
+            };
+            // Declared is not an outcome rhea knows, so it only surfaces as 'settled'
+            const onSettled = (context: any) => {
+                if (context.delivery === delivery) finish(null, context.delivery.remote_state);
+            };
+
+            sender.on('accepted', onAccepted);
+            sender.on('rejected', onRejected);
+            sender.on('settled', onSettled);
+
+            const timeout = setTimeout(() => finish(new Error(REQUEST_TIMEOUT_MESSAGE)), COORDINATOR_TIMEOUT_MS);
+
+            try {
+                delivery = sender.send({ body });
+            } catch (err) {
+                finish(err as Error);
+            }
+        });
+    }
+}
+
+/**
+ * Declared transaction on a connection.
+ * Pass it to sends and settlements on the same connection, then commit or roll back.
+ * Service Bus scopes a transaction to the first entity it touches: work on another entity is
+ * refused unless its sends go via that entity (see MessageSender's viaEntityPath).
+ */
+export class Transaction {
+    public readonly id: Uint8Array;
+    public readonly connection: ServiceBusConnection;
+    private readonly coordinator: TransactionCoordinator;
+    private status: 'active' | 'committed' | 'rolledBack' | 'indeterminate' = 'active';
+    private readonly dischargeListeners: Array<() => void> = [];
+
+    constructor(coordinator: TransactionCoordinator, connection: ServiceBusConnection, id: Uint8Array) {
+        this.coordinator = coordinator;
+        this.connection = connection;
+        this.id = id;
+    }
+
+    /**
+     * Whether the transaction can still take work
+     */
+    isActive(): boolean {
+        return this.status === 'active';
+    }
+
+    /**
+     * Whether a commit went out but its outcome never came back - it may or may not have applied
+     */
+    isIndeterminate(): boolean {
+        return this.status === 'indeterminate';
+    }
+
+    /**
+     * Commit every send and settlement enlisted in the transaction.
+     * A refused commit leaves nothing applied; a timed-out one leaves the transaction indeterminate.
+     */
+    async commit(): Promise<void> {
+        this.ensureActive();
+        this.status = 'committed';
+        try {
+            await this.coordinator.discharge(this.id, false);
+        } catch (err) {
+            const message = (err as Error).message;
+            if (message === REQUEST_TIMEOUT_MESSAGE) {
+                this.status = 'indeterminate';
+                throw new Error(`Transaction commit outcome unknown: ${message}`);
+            }
+            this.status = 'rolledBack';
+            throw new Error(`Transaction commit failed: ${message}`);
+        } finally {
+            this.notifyDischarged();
+        }
+    }
+
+    /**
+     * Roll back every send and settlement enlisted in the transaction
+     */
+    async rollback(): Promise<void> {
+        this.ensureActive();
+        this.status = 'rolledBack';
+        try {
+            await this.coordinator.discharge(this.id, true);
+        } catch (err) {
+            throw new Error(`Transaction rollback failed: ${(err as Error).message}`);
+        } finally {
+            this.notifyDischarged();
+        }
+    }
+
+    /**
+     * Run a callback once the transaction is committed or rolled back
+     */
+    onDischarged(listener: () => void): void {
+        this.dischargeListeners.push(listener);
+    }
+
+    /**
+     * Check the transaction can carry work sent over the given connection
+     */
+    ensureUsable(connection: ServiceBusConnection): void {
+        this.ensureActive();
+        if (connection !== this.connection) {
+            throw new Error('Transaction belongs to a different connection - use the same namespace and token');
+        }
+    }
+
+    /**
+     * Tag an outgoing delivery with this transaction's id (sent as the transfer's delivery state)
+     */
+    enlist(link: any, delivery: any): void {
+        delivery.transactional_state = rhea.types.wrap_described(
+            [rhea.types.wrap_binary(this.id)],
+            TRANSACTIONAL_STATE_DESCRIPTOR
+        );
+        patchSessionOutput(link?.session);
+    }
+
+    private ensureActive(): void {
+        if (this.status !== 'active') {
+            const state = this.status === 'committed' ? 'committed' : this.status === 'rolledBack' ? 'rolled back' : 'discharged (commit outcome unknown)';
+            throw new Error(`Transaction already ${state}`);
+        }
+    }
+
+    private notifyDischarged(): void {
+        for (const listener of this.dischargeListeners.splice(0)) {
+            try { listener(); } catch { }
+        }
+    }
+}
+
+/**
+ * rhea writes transfers without a delivery state, so the session's frame output is wrapped
+ * to add the transactional state of deliveries enlisted in a transaction
+ */
+function patchSessionOutput(session: any): void {
+    if (!session || typeof session.output !== 'function' || patchedSessions.has(session)) {
+        return;
+    }
+    patchedSessions.add(session);
+
+    const output = session.output.bind(session);
+    session.output = (frame: any, payload?: any) => {
+        if (frame?.constructor?.descriptor?.numeric === TRANSFER_DESCRIPTOR) {
+            const delivery = session.outgoing?.deliveries?.by_id(frame.delivery_id);
+            if (delivery?.transactional_state) {
+                // Unset fields before the state must be encoded as nulls, not skipped
+                for (let i = 0; i < TRANSFER_STATE_INDEX; i++) {
+                    if (frame.value[i] === undefined) frame.value[i] = rhea.types.wrap(null);
+                }
+                frame.value[TRANSFER_STATE_INDEX] = delivery.transactional_state;
+            }
+        }
+        return output(frame, payload);
+    };
+}
+
+function readDeclaredTxnId(outcome: any): Uint8Array | null {
+    if (Number(outcome?.descriptor?.value) !== DECLARED_DESCRIPTOR) {
+        return null;
+    }
+    const field = Array.isArray(outcome.value) ? outcome.value[0] : undefined;
+    const txnId = field?.value ?? field;
+    return txnId instanceof Uint8Array ? new Uint8Array(txnId) : null;
+}
@@ -0,0 +1,25 @@
+import { acquireConnection } from './connectionPool.js';
+import type { ConnectionLease } from './connectionPool.js';
+import type { Transaction } from './transaction.js';
+
+/**
+ * Begin a transaction on the pooled connection for a namespace.
+ * Pass it to sends, resubmits and complete/deadLetter calls made with the same namespace and token,
+ * then commit() or rollback() it - the connection stays leased until then.
+ * Service Bus scopes a transaction to one entity, so keep its sends and settlements on a single
+ * queue or topic (moveMessagesBySequence spans two by sending via the source).
+ */
+export async function beginTransaction(namespace: string, token: string): Promise<Transaction> {
+    let lease: ConnectionLease | null = null;
+    try {
+        // The coordinator is not an entity - its token is put for the namespace root
+        lease = await acquireConnection(namespace, token, '');
+        const transaction = await lease.connection.beginTransaction();
+        const current = lease;
+        transaction.onDischarged(() => current.release());
+        return transaction;
+    } catch (err) {
+        lease?.release();
+        throw new Error(`Begin transaction failed: ${(err as Error).message}`);
+    }
+}
@@ -10,6 +10,10 @@ import type { Message as RheaMessage, Connection, Sender, Receiver } from 'rhea'
 export interface ServiceBusMessage {
     messageId: string | undefined;
     body: string;
+    bodyBase64: string | undefined;  // Raw bytes of a binary body - the text view is lossy when bodyIsUtf8 is false
+    bodyIsUtf8: boolean;
+    bodyType: MessageBodyType;
+    bodyValue: unknown;  // Structured amqp-value, or the list of amqp-sequence sections; undefined for data bodies and binary values (see bodyBase64)
     contentType: string | undefined;
     correlationId: string | undefined;
     sessionId: string | undefined;
@@ -22,6 +26,7 @@ export interface ServiceBusMessage {
     lockedUntil: string | undefined;
     scheduledEnqueueTime: Date | number | undefined;
     partitionKey: string | undefined;
+    state: number | undefined; // x-opt-state: 0 = active, 1 = deferred, 2 = scheduled
     applicationProperties: Record<string, any>;
     messageAnnotations: Record<string, any>;
     properties: Record<string, any>;
@@ -30,6 +35,11 @@ export interface ServiceBusMessage {
     creationTime: string | undefined;
 }
 
+/**
+ * AMQP body section a message uses: data (bytes), amqp-sequence (lists) or amqp-value
+ */
+export type MessageBodyType = 'data' | 'sequence' | 'value';
+
 /**
  * Connection options
  */
@@ -58,6 +68,7 @@ export interface MessageProperties {
     reply_to?: string;
     to?: string;
     time_to_live?: number;
+    body_type?: MessageBodyType; // 'value' sends the body as amqp-value, 'sequence' as amqp-sequence sections (array of lists)
     message_annotations?: Record<string, any>; // For scheduled messages
     [key: string]: any;
 }
@@ -71,11 +82,205 @@ export interface PurgeController {
     getCount: () => number;
 }
 
+/**
+ * Filtered purge options
+ * - batchSize: matching messages deleted per round (default 100)
+ * - verify: lock each batch and re-check the query before deleting, so a message that changed
+ *   since the scan is left alone (default true); false deletes by sequence number directly.
+ *   A message left alone is abandoned, which raises its delivery count
+ */
+export interface PurgeMatchingOptions {
+    batchSize?: number;
+    verify?: boolean;
+}
+
+/**
+ * Serializable filtered purge position - pass it to resumePurgeMatching to continue a stopped purge.
+ * Holds no token; every message before nextSequenceNumber has been scanned and, if it matched, handled.
+ */
+export interface PurgeMatchingCursor {
+    version: number;
+    namespace: string;
+    entityPath: string;
+    query: string;
+    nextSequenceNumber: number;
+    options: PurgeMatchingOptions;
+    scannedCount: number;
+    matchCount: number;
+    deletedCount: number;
+    skippedCount: number;
+}
+
+/**
+ * Filtered purge result
+ * - skippedCount: matches that no longer matched when locked, or were already gone
+ */
+export interface PurgeMatchingResult {
+    scannedCount: number;
+    matchCount: number;
+    deletedCount: number;
+    skippedCount: number;
+    deletedSequenceNumbers: number[];   // Deleted in this session - a resumed purge starts a new list
+    completed: boolean;          // false when stopped - resume from the cursor
+    cursor: PurgeMatchingCursor;
+}
+
+export interface PurgeMatchingController {
+    promise: Promise<PurgeMatchingResult>;
+    stop: () => void;
+    getProgress: () => { scanned: number; matches: number; deleted: number; skipped: number };
+    getCursor: () => PurgeMatchingCursor;
+}
+
+export type PurgeMatchingProgressCallback = (deleted: number, scanned: number, matches: number, newlyDeleted: number[]) => void;
+
 /**
  * Monitor controller
  */
 export interface MonitorController {
     stop: () => void;
+    getFilteredOutCount: () => number;  // New messages that did not match options.filter
+    getPosition: () => MonitorPosition;
+}
+
+/**
+ * Last sequence number a monitor has handled, per entity path - pass it as options.resumeFrom
+ * to continue in a later session without gaps or repeats
+ */
+export type MonitorPosition = Record<string, number>;
+
+/**
+ * Event from a multi-entity monitor, tagged with the entity path it came from
+ */
+export type MonitorEvent =
+    | { type: 'message'; entityPath: string; message: ServiceBusMessage }
+    | { type: 'removed'; entityPath: string; sequenceNumbers: number[] }
+    | { type: 'sample'; entityPath: string; sample: EntitySample };
+
+/**
+ * Periodic depth sample of a monitored entity
+ * - depth: visible messages counted from the head, exact only when depthIsExact (the whole entity fit the window)
+ * - oldestMessageAgeMs: age of the message at the head, null when the entity is empty
+ * - enqueueRate / dequeueRate: messages per second since the previous sample (null on the first one);
+ *   dequeues are only seen within the window
+ */
+export interface EntitySample {
+    timestamp: string;
+    depth: number;
+    depthIsExact: boolean;
+    oldestMessageAgeMs: number | null;
+    enqueueRate: number | null;
+    dequeueRate: number | null;
+}
+
+/**
+ * Monitor options
+ * - includeDeadLetter: also monitor the DLQ of every given entity
+ * - minIntervalMs / maxIntervalMs: poll interval bounds - busy entities are polled at the minimum,
+ *   idle ones back off towards the maximum
+ * - sampleIntervalMs: how often removed messages and depth are checked (default 10s, 0 turns it off)
+ * - windowSize: visible messages tracked from the head of each entity for removals and depth (default 100).
+ *   Every sample re-peeks the whole window of every entity: N entities cost N x windowSize peeked
+ *   messages (one peek per 250) each sampleIntervalMs, so raise it with care on large monitors
+ * - filter: only messages matching it are reported
+ * - fromSequenceNumber: first sequence number to report, or 'tail' (default) for new messages only
+ * - resumeFrom: positions from a previous monitor's getPosition(); listed entities continue after them
+ */
+export interface MonitorOptions {
+    includeDeadLetter?: boolean;
+    minIntervalMs?: number;
+    maxIntervalMs?: number;
+    sampleIntervalMs?: number;
+    windowSize?: number;
+    filter?: MonitorFilter;
+    fromSequenceNumber?: number | 'tail';
+    resumeFrom?: MonitorPosition;
+}
+
+/**
+ * Monitor message filter - every condition given must match
+ * - subject / bodyContains: case-insensitive substring
+ * - applicationProperties: properties that must equal these values
+ * - bodyPattern: regular expression on the body text, '/pattern/flags' or a bare pattern
+ * - query: search query (Service Bus SQL filter syntax, see compileSearchQuery)
+ */
+export interface MonitorFilter {
+    subject?: string;
+    applicationProperties?: Record<string, string | number | boolean>;
+    bodyContains?: string;
+    bodyPattern?: string;
+    query?: string;
+}
+
+/**
+ * Poll state of one monitored entity
+ */
+export interface MonitoredEntityStatus {
+    entityPath: string;
+    lastSequenceNumber: number;
+    intervalMs: number;
+    filteredOutCount: number;
+    error?: string;
+}
+
+/**
+ * Multi-entity monitor controller
+ */
+export interface EntityMonitorController extends MonitorController {
+    getStatus: () => MonitoredEntityStatus[];
+}
+
+/**
+ * Dead-letter watch options (monitor options apply to the DLQ monitor; samples are off unless set)
+ * - burstThreshold: arrivals of one group within burstWindowMs that raise a burst alert (default 10 in 60s)
+ * - alertCooldownMs: minimum time between burst alerts of one group (default burstWindowMs)
+ * - maxSamples: most recent messages attached to a group and its alerts (default 5)
+ * - maxGroups: groups kept in memory (default 500); past it the least recently seen group is dropped,
+ *   and raises a new-group alert again if it comes back
+ */
+export interface DeadLetterWatchOptions extends Omit<MonitorOptions, 'includeDeadLetter'> {
+    burstThreshold?: number;
+    burstWindowMs?: number;
+    alertCooldownMs?: number;
+    maxSamples?: number;
+    maxGroups?: number;
+}
+
+/**
+ * Dead-lettered messages of one DLQ with the same reason, error description and subject.
+ * errorDescription is normalized - ids, timestamps and numbers in it are replaced by placeholders
+ * (<id>, <time>, <n>) so descriptions that only differ in them share a group; samples keep the originals.
+ */
+export interface DeadLetterGroup {
+    entityPath: string;
+    reason: string | undefined;
+    errorDescription: string | undefined;
+    subject: string | undefined;
+    count: number;
+    firstSeen: string;
+    lastSeen: string;
+    samples: ServiceBusMessage[];
+}
+
+/**
+ * Dead-letter alert
+ * - new-group: first arrival with a reason/description/subject not seen before
+ * - burst: the group crossed the burst threshold; ratePerMinute is over the burst window
+ */
+export interface DeadLetterAlert {
+    type: 'new-group' | 'burst';
+    group: DeadLetterGroup;
+    recentCount: number;
+    ratePerMinute: number;
+}
+
+export type DeadLetterAlertCallback = (alert: DeadLetterAlert) => void;
+
+/**
+ * Dead-letter watch controller
+ */
+export interface DeadLetterWatchController extends MonitorController {
+    getGroups: () => DeadLetterGroup[];
 }
 
 /**
@@ -96,11 +301,21 @@ export type ProgressCallback = (deletedCount: number) => void;
  */
 export type MessageCallback = (message: ServiceBusMessage) => void;
 
+/**
+ * Event callback for multi-entity monitoring
+ */
+export type MonitorEventCallback = (event: MonitorEvent) => void;
+
 /**
  * Error callback
  */
 export type ErrorCallback = (error: Error) => void;
 
+/**
+ * Token provider - returns a fresh Entra ID (JWT) or SAS token when the current one nears expiry
+ */
+export type TokenProvider = () => Promise<string> | string;
+
 /**
  * Batch operation result
  */
@@ -110,6 +325,150 @@ export interface BatchOperationResult {
     errors: Array<{ messageId: string; error: string }>;
 }
 
+/**
+ * Messages peeked by sequence number, in request order, with the requested sequence numbers
+ * that were not found (deleted, expired or never assigned)
+ */
+export interface PeekBySequenceResult {
+    messages: ServiceBusMessage[];
+    missingSequenceNumbers: number[];
+}
+
+/**
+ * Message for a session-aware batch send - sessionId wins over properties.session_id
+ */
+export interface SessionBatchMessage {
+    body: string | object | Uint8Array | null | undefined;
+    bodyBase64?: string;
+    properties?: MessageProperties;
+    sessionId?: string;
+}
+
+/**
+ * Session ID rule for batch messages that carry no session ID of their own
+ * - jsonPath: read the ID from the JSON body (e.g. "$.order.customerId")
+ * - roundRobin: spread messages over sessionCount sessions named `${prefix}${n}`
+ */
+export type SessionAssignment =
+    | { type: 'jsonPath'; path: string }
+    | { type: 'roundRobin'; sessionCount: number; prefix?: string };
+
+/**
+ * Session-aware batch send result, with counts per session
+ */
+export interface SessionBatchResult extends BatchOperationResult {
+    sessions: Array<{ sessionId: string; successCount: number; failureCount: number; error?: string }>;
+}
+
+/**
+ * Resubmit options
+ * - stripDeadLetterProperties: drop DeadLetterReason/DeadLetterErrorDescription and the dead-letter source
+ * - stampBussin: add the x-bussin-sent-via / x-bussin-sent-at application properties (off by default)
+ */
+export interface ResubmitOptions {
+    stripDeadLetterProperties?: boolean;
+    stampBussin?: boolean;
+}
+
+/**
+ * Browse (paged peek) options
+ * - fromSequenceNumber: first sequence number to return (default 0, the oldest message)
+ * - batchSize: messages per peek (default 100)
+ * - maxMessages: end the browse after this many messages
+ * - sessionId: only browse the messages of this session
+ * - fromDeadLetter: browse the entity's dead letter queue
+ * - follow: at the end of the entity, poll every pollIntervalMs for new messages instead of ending
+ * - signal: end the browse when aborted
+ */
+export interface BrowseOptions {
+    fromSequenceNumber?: number;
+    batchSize?: number;
+    maxMessages?: number;
+    sessionId?: string;
+    fromDeadLetter?: boolean;
+    follow?: boolean;
+    pollIntervalMs?: number;
+    signal?: AbortSignal;
+}
+
+/**
+ * Entity messages are moved from - a queue, or a topic subscription; optionally its DLQ
+ */
+export interface MoveSource {
+    namespace: string;
+    token: string;
+    queueName?: string;
+    topicName?: string;
+    subscriptionName?: string;
+    fromDeadLetter?: boolean;
+}
+
+/**
+ * Entity messages are moved to - a queue or a topic, in any namespace
+ */
+export interface MoveDestination {
+    namespace: string;
+    token: string;
+    queueName?: string;
+    topicName?: string;
+}
+
+/**
+ * Move options
+ * - transactional: send the copy and complete the original in one transaction, so a failure
+ *   never leaves a duplicate (source and destination need the same namespace and token). A
+ *   transaction covers a single entity, so the copy is sent via the source entity (send-via) and
+ *   Service Bus forwards it to the destination on commit
+ */
+export interface MoveOptions extends ResubmitOptions {
+    transactional?: boolean;
+}
+
+/**
+ * Per-message move outcome
+ * - moved: copy accepted by the destination and original completed
+ * - not-found: no message with that sequence number in the source
+ * - send-failed: copy rejected, original lock abandoned (message stays in the source). Abandoning raises
+ *   the delivery count, so repeated failed moves can dead-letter the message, or leave a DLQ message
+ *   with a higher count
+ * - complete-failed: copy accepted but the original could not be completed (it may be delivered again)
+ * - rolled-back: transactional move failed, neither copy nor completion applied (message stays in the source)
+ * - indeterminate: transactional commit timed out, so it may or may not have applied - check the destination
+ *   before moving the message again
+ */
+export type MoveStatus = 'moved' | 'not-found' | 'send-failed' | 'complete-failed' | 'rolled-back' | 'indeterminate';
+
+/**
+ * Move result, with an outcome per requested sequence number
+ */
+export interface MoveResult extends BatchOperationResult {
+    results: Array<{ sequenceNumber: number; messageId?: string; status: MoveStatus; error?: string }>;
+}
+
+/**
+ * Lock renewal result - new locked-until time (ISO) per renewed lock token
+ */
+export interface RenewLockResult extends BatchOperationResult {
+    lockedUntil: Record<string, string>;
+}
+
+/**
+ * Auto lock renewal options
+ */
+export interface LockRenewalOptions {
+    maxDurationMs?: number;
+    onRenewed?: (result: RenewLockResult) => void;
+    onError?: ErrorCallback;
+}
+
+/**
+ * Auto lock renewal controller
+ */
+export interface LockRenewalController {
+    stop: () => void;
+    isRunning: () => boolean;
+}
+
 /**
  * Locked message with lock token for settlement
  * The lock token is used to settle the message (complete/abandon/deadletter).
@@ -120,6 +479,23 @@ export interface LockedMessage extends ServiceBusMessage {
 }
 
 
+/**
+ * Session state - raw bytes as base64, with text and JSON views when the bytes allow
+ */
+export interface SessionState {
+    sessionId: string;
+    hasState: boolean;
+    size: number;
+    base64: string;
+    text: string | null;  // null when the state is not valid UTF-8
+    json: unknown;        // undefined when the text is not JSON
+}
+
+/**
+ * How a session state value passed to setSessionState is encoded
+ */
+export type SessionStateFormat = 'text' | 'json' | 'base64';
+
 /**
  * Dead letter options
  */
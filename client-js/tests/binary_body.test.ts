@@ -0,0 +1,86 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { GlobalMockBroker } from '../src/mockBroker.js';
+import * as ServiceBusAPI from '../serviceBusApi.js';
+
+(globalThis as any).WebSocket = class { constructor() {} };
+
+// Mock the 'rhea' library to redirect to our MockBroker
+vi.mock('rhea', () => {
+    const mockRhea = {
+        connect: (opts: any) => GlobalMockBroker.connect(opts),
+        websocket_connect: (ws: any) => {
+            return (url: string, protocols: string[]) => {
+                return { url, protocols }; // dummy
+            };
+        },
+        message: {
+            data_section: (data: any) => data,
+            decode: (data: any) => data,
+            encode: (msg: any) => msg
+        },
+        types: {
+            wrap_long: (v: any) => v,
+            wrap_int: (v: any) => v,
+            wrap_uint: (v: any) => v,
+            wrap_array: (v: any) => v,
+            wrap_timestamp: (v: any) => v,
+            wrap_described: (v: any, d: any) => v,
+            wrap_binary: (v: any) => v
+        }
+    };
+
+    return {
+        ...mockRhea,
+        default: mockRhea,
+        message: mockRhea.message,
+        types: mockRhea.types
+    };
+});
+
+// gzip magic + deflate header - not valid UTF-8
+const gzipBytes = new Uint8Array([0x1f, 0x8b, 0x08, 0x00, 0x00, 0x00, 0x00, 0x00, 0x00, 0xff, 0xc3, 0x28]);
+const storedBytes = (queue: string) => GlobalMockBroker.getMessages(queue).map(m => Array.from(m.body as Uint8Array));
+
+describe('Binary Message Bodies', () => {
+    const ns = 'demo-ns';
+    const queue = 'binary-queue';
+
+    beforeEach(() => {
+        (globalThis as any).__BUSSIN_SIMULATOR_ACTIVE__ = true;
+        GlobalMockBroker.reset();
+        GlobalMockBroker.createQueue(queue);
+    });
+
+    it('should send binary bodies unchanged', async () => {
+        await ServiceBusAPI.sendQueueMessage(ns, queue, 'token', gzipBytes);
+        await ServiceBusAPI.sendQueueMessage(ns, queue, 'token', gzipBytes.buffer);
+
+        expect(storedBytes(queue)).toEqual([Array.from(gzipBytes), Array.from(gzipBytes)]);
+        expect(GlobalMockBroker.getMessages(queue)[0].content_type).toBe('application/octet-stream');
+    });
+
+    it('should expose raw bytes and flag bodies that are not UTF-8', async () => {
+        await ServiceBusAPI.sendQueueMessage(ns, queue, 'token', gzipBytes);
+        await ServiceBusAPI.sendQueueMessage(ns, queue, 'token', 'plain text ✓');
+
+        const [binary, text] = await ServiceBusAPI.peekQueueMessages(ns, queue, 'token', 10);
+
+        expect(binary.bodyIsUtf8).toBe(false);
+        expect(binary.bodyBase64).toBe(btoa(String.fromCharCode(...gzipBytes)));
+        expect(text.bodyIsUtf8).toBe(true);
+        expect(text.body).toBe('plain text ✓');
+    });
+
+    it('should resubmit a dead-lettered binary message byte for byte', async () => {
+        await ServiceBusAPI.sendQueueMessage(ns, queue, 'token', gzipBytes);
+        const [locked] = await ServiceBusAPI.receiveAndLockQueueMessage(ns, queue, 'token');
+        await ServiceBusAPI.deadLetter([locked.lockToken]);
+
+        const [dead] = await ServiceBusAPI.peekQueueMessages(ns, queue, 'token', 10, 0, true);
+        await ServiceBusAPI.sendQueueMessageBatch(ns, queue, 'token', [
+            { body: dead.body, bodyBase64: dead.bodyBase64, properties: { content_type: dead.contentType } }
+        ]);
+
+        expect(storedBytes(queue)).toEqual([Array.from(gzipBytes)]);
+    });
+});
@@ -0,0 +1,124 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { GlobalMockBroker } from '../src/mockBroker.js';
+import * as ServiceBusAPI from '../serviceBusApi.js';
+import { parseServiceBusMessage } from '../src/messageParser.js';
+import { rebuildAmqpMessage } from '../src/sendOperations.js';
+
+(globalThis as any).WebSocket = class { constructor() {} };
+
+// Mock the 'rhea' library to redirect to our MockBroker
+vi.mock('rhea', () => {
+    const mockRhea = {
+        connect: (opts: any) => GlobalMockBroker.connect(opts),
+        websocket_connect: (ws: any) => {
+            return (url: string, protocols: string[]) => {
+                return { url, protocols }; // dummy
+            };
+        },
+        message: {
+            data_section: (data: any) => ({ typecode: 0x75, content: data }), // a section, as rhea returns it
+            sequence_section: (list: any) => ({ typecode: 0x76, content: list }),
+            sequence_sections: (lists: any) => ({ typecode: 0x76, content: lists, multiple: true }),
+            decode: (data: any) => data,
+            encode: (msg: any) => msg
+        },
+        types: {
+            wrap_long: (v: any) => v,
+            wrap_int: (v: any) => v,
+            wrap_uint: (v: any) => v,
+            wrap_array: (v: any) => v,
+            wrap_timestamp: (v: any) => v,
+            wrap_described: (v: any, d: any) => v,
+            wrap_binary: (v: any) => v
+        }
+    };
+
+    return {
+        ...mockRhea,
+        default: mockRhea,
+        message: mockRhea.message,
+        types: mockRhea.types
+    };
+});
+
+describe('AMQP Body Sections', () => {
+    const ns = 'demo-ns';
+    const queue = 'sections-queue';
+
+    beforeEach(() => {
+        (globalThis as any).__BUSSIN_SIMULATOR_ACTIVE__ = true;
+        GlobalMockBroker.reset();
+        GlobalMockBroker.createQueue(queue);
+    });
+
+    it('should report amqp-value maps as structured values', async () => {
+        // As produced by a JMS MapMessage or a Python client sending a dict
+        GlobalMockBroker.pushMessage(queue, { body: { orderId: 42, lines: ['a', 'b'] }, message_id: 'jms-1' });
+
+        const [message] = await ServiceBusAPI.peekQueueMessages(ns, queue, 'token', 10);
+
+        expect(message.bodyType).toBe('value');
+        expect(message.bodyValue).toEqual({ orderId: 42, lines: ['a', 'b'] });
+        expect(message.body).toBe('{"orderId":42,"lines":["a","b"]}');
+        expect(message.bodyBase64).toBeUndefined();
+    });
+
+    it('should report amqp-sequence bodies as a list of sections', async () => {
+        GlobalMockBroker.pushMessage(queue, { body: { typecode: 0x76, content: [1, 'two'] }, message_id: 'seq-1' });
+        GlobalMockBroker.pushMessage(queue, { body: { typecode: 0x76, content: [[1], [2, 3]], multiple: true }, message_id: 'seq-2' });
+
+        const [single, multiple] = await ServiceBusAPI.peekQueueMessages(ns, queue, 'token', 10);
+
+        expect(single.bodyType).toBe('sequence');
+        expect(single.bodyValue).toEqual([[1, 'two']]);
+        expect(multiple.bodyValue).toEqual([[1], [2, 3]]);
+    });
+
+    it('should keep data bodies as data', async () => {
+        await ServiceBusAPI.sendQueueMessage(ns, queue, 'token', { hello: 'world' });
+
+        const [message] = await ServiceBusAPI.peekQueueMessages(ns, queue, 'token', 10);
+
+        expect(message.bodyType).toBe('data');
+        expect(message.bodyValue).toBeUndefined();
+        expect(message.body).toBe('{"hello":"world"}');
+    });
+
+    it('should re-send amqp-value and amqp-sequence bodies in the same section', async () => {
+        GlobalMockBroker.pushMessage(queue, { body: { orderId: 42 }, message_id: 'jms-1' });
+        GlobalMockBroker.pushMessage(queue, { body: { typecode: 0x76, content: [[1], [2, 3]], multiple: true }, message_id: 'seq-1' });
+        const peeked = await ServiceBusAPI.peekQueueMessages(ns, queue, 'token', 10);
+
+        await ServiceBusAPI.sendQueueMessageBatch(ns, 'copy-queue', 'token', peeked.map(m => ({
+            body: m.bodyValue as any,
+            properties: { body_type: m.bodyType }
+        })));
+
+        const [value, sequence] = GlobalMockBroker.getMessages('copy-queue');
+        expect(value.body).toEqual({ orderId: 42 });
+        expect(value.content_type).toBeUndefined();
+        expect(value.application_properties.body_type).toBeUndefined();
+        expect(sequence.body).toEqual({ typecode: 0x76, content: [[1], [2, 3]], multiple: true });
+    });
+
+    it('should tell binary amqp-value bodies from data sections and re-send them unchanged', () => {
+        const bytes = new Uint8Array([0x1f, 0x8b, 0xff]);
+        // rhea unwraps amqp-value sections, but keeps data sections as sections
+        const value = parseServiceBusMessage({ body: bytes, message_annotations: { 'x-opt-sequence-number': 1 } });
+        const data = parseServiceBusMessage({ body: { typecode: 0x75, content: bytes }, message_annotations: { 'x-opt-sequence-number': 2 } });
+
+        expect(value.bodyType).toBe('value');
+        expect(value.bodyValue).toBeUndefined();
+        expect(value.bodyBase64).toBe(data.bodyBase64);
+        expect(data.bodyType).toBe('data');
+
+        // Also after a round trip through JSON (e.g. the Blazor UI)
+        expect(rebuildAmqpMessage(JSON.parse(JSON.stringify(value)), {}).body).toEqual(bytes);
+        expect(rebuildAmqpMessage(data, {}).body).toEqual({ typecode: 0x75, content: bytes });
+    });
+
+    it('should reject sequence bodies that are not lists of lists', async () => {
+        await expect(ServiceBusAPI.sendQueueMessage(ns, queue, 'token', [1, 2], { body_type: 'sequence' }))
+            .rejects.toThrow(/amqp-sequence/);
+    });
+});
@@ -0,0 +1,125 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { GlobalMockBroker } from '../src/mockBroker.js';
+import * as ServiceBusAPI from '../serviceBusApi.js';
+
+(globalThis as any).WebSocket = class { constructor() {} };
+
+// Mock the 'rhea' library to redirect to our MockBroker
+vi.mock('rhea', () => {
+    const mockRhea = {
+        connect: (opts: any) => GlobalMockBroker.connect(opts),
+        websocket_connect: (ws: any) => {
+            return (url: string, protocols: string[]) => {
+                return { url, protocols }; // dummy
+            };
+        },
+        message: {
+            data_section: (data: any) => data,
+            sequence_section: (list: any) => ({ typecode: 0x76, content: list }),
+            sequence_sections: (lists: any) => ({ typecode: 0x76, content: lists, multiple: true }),
+            decode: (data: any) => data,
+            encode: (msg: any) => msg
+        },
+        types: {
+            wrap_long: (v: any) => v,
+            wrap_int: (v: any) => v,
+            wrap_uint: (v: any) => v,
+            wrap_array: (v: any) => v,
+            wrap_timestamp: (v: any) => v,
+            wrap_described: (v: any, d: any) => v,
+            wrap_binary: (v: any) => v
+        }
+    };
+
+    return {
+        ...mockRhea,
+        default: mockRhea,
+        message: mockRhea.message,
+        types: mockRhea.types
+    };
+});
+
+
+describe('Browse Entity', () => {
+    const ns = 'demo-ns';
+    const push = (path: string, id: number, sessionId?: string) => GlobalMockBroker.pushMessage(path, {
+        body: new TextEncoder().encode(`message ${id}`),
+        message_id: `msg-${id}`,
+        ...(sessionId ? { group_id: sessionId } : {})
+    });
+    const collect = async (iterable: AsyncIterable<any>) => {
+        const messages: any[] = [];
+        for await (const message of iterable) messages.push(message);
+        return messages;
+    };
+
+    beforeEach(() => {
+        (globalThis as any).__BUSSIN_SIMULATOR_ACTIVE__ = true;
+        GlobalMockBroker.reset();
+        GlobalMockBroker.createQueue('orders');
+    });
+
+    it('should page through the whole entity in sequence order', async () => {
+        for (let i = 1; i <= 250; i++) push('orders', i);
+
+        const messages = await collect(ServiceBusAPI.browseEntity(ns, 'orders', 'token', { batchSize: 40 }));
+
+        expect(messages.length).toBe(250);
+        expect(messages.map(m => m.sequenceNumber)).toEqual(Array.from({ length: 250 }, (_, i) => i + 1));
+    });
+
+    it('should skip gaps and start from a sequence number', async () => {
+        for (let i = 1; i <= 10; i++) push('orders', i);
+        const stored = GlobalMockBroker.getMessages('orders');
+        stored.splice(3, 4); // sequence numbers 4-7 are gone
+
+        const messages = await collect(ServiceBusAPI.browseEntity(ns, 'orders', 'token', { fromSequenceNumber: 2, batchSize: 2 }));
+
+        expect(messages.map(m => m.sequenceNumber)).toEqual([2, 3, 8, 9, 10]);
+    });
+
+    it('should browse the DLQ and a single session', async () => {
+        push('orders', 1, 'a');
+        push('orders', 2, 'b');
+        push('orders', 3, 'a');
+        push('orders/$DeadLetterQueue', 4);
+
+        const session = await collect(ServiceBusAPI.browseEntity(ns, 'orders', 'token', { sessionId: 'a' }));
+        const deadLettered = await collect(ServiceBusAPI.browseEntity(ns, 'orders', 'token', { fromDeadLetter: true }));
+
+        expect(session.map(m => m.messageId)).toEqual(['msg-1', 'msg-3']);
+        expect(deadLettered.map(m => m.messageId)).toEqual(['msg-4']);
+    });
+
+    it('should end when aborted or after maxMessages', async () => {
+        for (let i = 1; i <= 30; i++) push('orders', i);
+
+        const abort = new AbortController();
+        const seen: number[] = [];
+        for await (const message of ServiceBusAPI.browseEntity(ns, 'orders', 'token', { batchSize: 10, signal: abort.signal })) {
+            seen.push(message.sequenceNumber!);
+            if (seen.length === 12) abort.abort();
+        }
+        expect(seen.length).toBe(12);
+
+        const limited = await collect(ServiceBusAPI.browseEntity(ns, 'orders', 'token', { batchSize: 10, maxMessages: 15 }));
+        expect(limited.length).toBe(15);
+    });
+
+    it('should follow the end of the entity for new messages', async () => {
+        push('orders', 1);
+        const abort = new AbortController();
+        const seen: string[] = [];
+
+        for await (const message of ServiceBusAPI.browseEntity(ns, 'orders', 'token', { follow: true, pollIntervalMs: 10, signal: abort.signal })) {
+            seen.push(message.messageId!);
+            if (seen.length === 1) {
+                setTimeout(() => push('orders', 2), 30);
+            } else {
+                abort.abort();
+            }
+        }
+
+        expect(seen).toEqual(['msg-1', 'msg-2']);
+    });
+});
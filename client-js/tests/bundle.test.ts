@@ -44,17 +44,28 @@ describe('ServiceBusAPI Bundle Verification', () => {
             'peekSubscriptionMessagesBySequence',
             'receiveAndLockQueueMessage',
             'receiveAndLockSubscriptionMessage',
+            'receiveDeferredQueueMessages',
+            'receiveDeferredSubscriptionMessages',
+            'browseEntity',
+            'peekByTimeRange',
 
             // Settlement operations
             'complete',
             'abandon',
+            'defer',
             'deadLetter',
+            'renewLock',
+            'autoRenewLock',
 
             // Send operations
             'sendQueueMessage',
             'sendTopicMessage',
             'sendQueueMessageBatch',
             'sendTopicMessageBatch',
+            'sendQueueSessionMessageBatch',
+            'sendTopicSessionMessageBatch',
+            'resubmitQueueMessages',
+            'resubmitTopicMessages',
 
             // Destructive operations
             'purgeQueue',
@@ -65,16 +76,23 @@ describe('ServiceBusAPI Bundle Verification', () => {
             'cancelScheduledTopicMessages',
             'deadLetterQueueMessagesBySequence',
             'deadLetterSubscriptionMessagesBySequence',
+            'moveMessagesBySequence',
             'purgeQueueDirect',
             'purgeSubscriptionDirect',
+            'purgeMatching',
+            'resumePurgeMatching',
 
             // Monitor operations
             'monitorQueue',
             'monitorSubscription',
+            'monitorEntities',
+            'watchDeadLetters',
 
             // Search operations
             'searchQueueMessages',
             'searchSubscriptionMessages',
+            'resumeSearch',
+            'searchEntities',
 
             // Simulator control
             'enableSimulator',
@@ -89,7 +107,22 @@ describe('ServiceBusAPI Bundle Verification', () => {
             // Rule operations
             'enumerateRules',
             'addRule',
-            'removeRule'
+            'removeRule',
+
+            // Session state operations
+            'getQueueSessionState',
+            'getSubscriptionSessionState',
+            'setQueueSessionState',
+            'setSubscriptionSessionState',
+
+            // Transaction operations
+            'beginTransaction',
+
+            // Connection management
+            'disposeNamespace',
+            'setTokenProvider',
+            'parseConnectionString',
+            'generateSasToken'
         ];
 
         for (const method of expectedMethods) {
@@ -0,0 +1,94 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { GlobalMockBroker } from '../src/mockBroker.js';
+import * as ServiceBusAPI from '../serviceBusApi.js';
+
+(globalThis as any).WebSocket = class { constructor() {} };
+
+// Mock the 'rhea' library to redirect to our MockBroker
+vi.mock('rhea', () => {
+    const mockRhea = {
+        connect: (opts: any) => GlobalMockBroker.connect(opts),
+        websocket_connect: (ws: any) => {
+            return (url: string, protocols: string[]) => {
+                return { url, protocols }; // dummy
+            };
+        },
+        message: {
+            data_section: (data: any) => data,
+            decode: (data: any) => data,
+            encode: (msg: any) => msg
+        },
+        types: {
+            wrap_long: (v: any) => v,
+            wrap_int: (v: any) => v,
+            wrap_uint: (v: any) => v,
+            wrap_array: (v: any) => v,
+            wrap_timestamp: (v: any) => v,
+            wrap_described: (v: any, d: any) => v,
+            wrap_binary: (v: any) => v
+        }
+    };
+
+    return {
+        ...mockRhea,
+        default: mockRhea,
+        message: mockRhea.message,
+        types: mockRhea.types
+    };
+});
+
+const cbsRequests = () => GlobalMockBroker.auditLog.filter(a => a === 'SEND (to: $cbs)').length;
+
+describe('Connection Pool', () => {
+    const ns = 'pool-ns';
+    const queue = 'pool-queue';
+
+    beforeEach(() => {
+        (globalThis as any).__BUSSIN_SIMULATOR_ACTIVE__ = true;
+        GlobalMockBroker.reset();
+        GlobalMockBroker.createQueue(queue);
+        GlobalMockBroker.pushMessage(queue, { body: 'pooled', message_id: 'msg-1', application_properties: {} });
+    });
+
+    it('should reuse the connection and CBS token across operations on the same entity', async () => {
+        const first = await ServiceBusAPI.peekQueueMessages(ns, queue, 'token', 10);
+        const second = await ServiceBusAPI.peekQueueMessages(ns, queue, 'token', 10);
+        await ServiceBusAPI.sendQueueMessage(ns, queue, 'token', 'another');
+        const search = await ServiceBusAPI.searchQueueMessages(ns, queue, 'token', false, 'pooled', '', '', 100, 10);
+        const found = await search.promise;
+
+        expect(found.matchCount).toBe(1);
+        expect(first.length).toBe(1);
+        expect(second.length).toBe(1);
+        expect(cbsRequests()).toBe(1);
+        expect(GlobalMockBroker.getMessages(queue).length).toBe(2);
+    });
+
+    it('should share in-flight connection setup between concurrent calls', async () => {
+        const results = await Promise.all([
+            ServiceBusAPI.peekQueueMessages(ns, queue, 'token', 10),
+            ServiceBusAPI.peekQueueMessages(ns, queue, 'token', 10),
+            ServiceBusAPI.getMessageSessions(ns, queue, 'token')
+        ]);
+
+        expect(results[0].length).toBe(1);
+        expect(results[1].length).toBe(1);
+        expect(cbsRequests()).toBe(1);
+    });
+
+    it('should keep separate connections per token', async () => {
+        await ServiceBusAPI.peekQueueMessages(ns, queue, 'token-a', 10);
+        await ServiceBusAPI.peekQueueMessages(ns, queue, 'token-b', 10);
+
+        expect(cbsRequests()).toBe(2);
+    });
+
+    it('should reconnect after disposeNamespace', async () => {
+        await ServiceBusAPI.peekQueueMessages(ns, queue, 'token', 10);
+        ServiceBusAPI.disposeNamespace(ns);
+        const messages = await ServiceBusAPI.peekQueueMessages(ns, queue, 'token', 10);
+
+        expect(messages.length).toBe(1);
+        expect(cbsRequests()).toBe(2);
+    });
+});
@@ -0,0 +1,57 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { createHmac } from 'crypto';
+import { GlobalMockBroker } from '../src/mockBroker.js';
+import { ServiceBusConnection } from '../src/connection.js';
+import { parseConnectionString, generateSasToken, getResourceUri } from '../src/connectionString.js';
+
+(globalThis as any).WebSocket = class { constructor() {} };
+
+const connectionString = 'Endpoint=sb://contoso.servicebus.windows.net/;SharedAccessKeyName=RootManageSharedAccessKey;SharedAccessKey=c2VjcmV0LWtleQ==;EntityPath=orders';
+
+describe('Connection Strings & SAS Tokens', () => {
+    beforeEach(() => {
+        (globalThis as any).__BUSSIN_SIMULATOR_ACTIVE__ = true;
+        GlobalMockBroker.reset();
+    });
+
+    it('should parse all connection string parts including EntityPath', () => {
+        const props = parseConnectionString(connectionString);
+
+        expect(props.namespace).toBe('contoso.servicebus.windows.net');
+        expect(props.sharedAccessKeyName).toBe('RootManageSharedAccessKey');
+        expect(props.sharedAccessKey).toBe('c2VjcmV0LWtleQ==');
+        expect(props.entityPath).toBe('orders');
+        expect(getResourceUri(props)).toBe('sb://contoso.servicebus.windows.net/orders');
+    });
+
+    it('should reject connection strings without credentials', () => {
+        expect(() => parseConnectionString('Endpoint=sb://contoso.servicebus.windows.net/')).toThrow(/SharedAccessKey/);
+        expect(() => parseConnectionString('SharedAccessKeyName=a;SharedAccessKey=b')).toThrow(/Endpoint/);
+    });
+
+    it('should sign SAS tokens with HMAC-SHA256 over the encoded resource URI and expiry', async () => {
+        const resourceUri = 'sb://contoso.servicebus.windows.net/orders';
+        const token = await generateSasToken(resourceUri, 'RootManageSharedAccessKey', 'c2VjcmV0LWtleQ==');
+
+        const fields = new URLSearchParams(token.substring('SharedAccessSignature '.length));
+        const expected = createHmac('sha256', 'c2VjcmV0LWtleQ==')
+            .update(`${encodeURIComponent(resourceUri)}\n${fields.get('se')}`)
+            .digest('base64');
+
+        expect(fields.get('sr')).toBe(resourceUri);
+        expect(fields.get('sig')).toBe(expected);
+        expect(fields.get('skn')).toBe('RootManageSharedAccessKey');
+        expect(Number(fields.get('se'))).toBeGreaterThan(Date.now() / 1000);
+    });
+
+    it('should accept a connection string in place of a token', async () => {
+        const connection = new ServiceBusConnection('', connectionString);
+        expect(connection.namespace).toBe('contoso');
+
+        await connection.connect();
+        await connection.authenticateCBS('orders');
+
+        expect(connection.token.startsWith('SharedAccessSignature sr=sb%3A%2F%2Fcontoso.servicebus.windows.net%2Forders&')).toBe(true);
+        connection.close();
+    });
+});
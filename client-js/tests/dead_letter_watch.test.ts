@@ -0,0 +1,140 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { GlobalMockBroker } from '../src/mockBroker.js';
+import * as ServiceBusAPI from '../serviceBusApi.js';
+
+(globalThis as any).WebSocket = class { constructor() {} };
+
+// Mock the 'rhea' library to redirect to our MockBroker
+vi.mock('rhea', () => {
+    const mockRhea = {
+        connect: (opts: any) => GlobalMockBroker.connect(opts),
+        websocket_connect: (ws: any) => {
+            return (url: string, protocols: string[]) => {
+                return { url, protocols }; // dummy
+            };
+        },
+        message: {
+            data_section: (data: any) => data,
+            sequence_section: (list: any) => ({ typecode: 0x76, content: list }),
+            sequence_sections: (lists: any) => ({ typecode: 0x76, content: lists, multiple: true }),
+            decode: (data: any) => data,
+            encode: (msg: any) => msg
+        },
+        types: {
+            wrap_long: (v: any) => v,
+            wrap_int: (v: any) => v,
+            wrap_uint: (v: any) => v,
+            wrap_array: (v: any) => v,
+            wrap_timestamp: (v: any) => v,
+            wrap_described: (v: any, d: any) => v,
+            wrap_binary: (v: any) => v
+        }
+    };
+
+    return {
+        ...mockRhea,
+        default: mockRhea,
+        message: mockRhea.message,
+        types: mockRhea.types
+    };
+});
+
+
+describe('Dead Letter Watch', () => {
+    const ns = 'dlq-watch-ns';
+    const deadLetter = (path: string, reason: string, subject: string, description = 'boom') => GlobalMockBroker.pushMessage(`${path}/$DeadLetterQueue`, {
+        body: new TextEncoder().encode('poison'),
+        message_id: `msg-${Math.random()}`,
+        subject,
+        application_properties: { DeadLetterReason: reason, DeadLetterErrorDescription: description }
+    });
+    const fast = { minIntervalMs: 5, maxIntervalMs: 10 };
+    let controller: any = null;
+
+    beforeEach(() => {
+        (globalThis as any).__BUSSIN_SIMULATOR_ACTIVE__ = true;
+        GlobalMockBroker.reset();
+        ServiceBusAPI.disposeNamespace(ns);
+        GlobalMockBroker.createQueue('orders');
+        GlobalMockBroker.createTopic('events');
+        GlobalMockBroker.createSubscription('events', 'audit');
+    });
+
+    afterEach(() => {
+        controller?.stop();
+        controller = null;
+    });
+
+    it('should group new dead letters by reason, description and subject', async () => {
+        deadLetter('orders', 'Old', 'Ignored'); // already there - not an arrival
+        const alerts: any[] = [];
+
+        controller = await ServiceBusAPI.watchDeadLetters(
+            ns, ['orders', 'events/subscriptions/audit/$DeadLetterQueue'], 'token', alert => alerts.push(alert), undefined, fast
+        );
+
+        deadLetter('orders', 'MaxDeliveryCountExceeded', 'OrderPlaced');
+        deadLetter('orders', 'MaxDeliveryCountExceeded', 'OrderPlaced');
+        deadLetter('orders', 'MaxDeliveryCountExceeded', 'Refund');
+        deadLetter('events/subscriptions/audit', 'TTLExpiredException', 'Audit', 'expired');
+
+        await vi.waitFor(() => expect(controller.getGroups().reduce((sum: number, g: any) => sum + g.count, 0)).toBe(4));
+
+        const groups = controller.getGroups();
+        expect(groups.map((g: any) => [g.entityPath, g.reason, g.subject, g.count])).toEqual(expect.arrayContaining([
+            ['orders/$DeadLetterQueue', 'MaxDeliveryCountExceeded', 'OrderPlaced', 2],
+            ['orders/$DeadLetterQueue', 'MaxDeliveryCountExceeded', 'Refund', 1],
+            ['events/subscriptions/audit/$DeadLetterQueue', 'TTLExpiredException', 'Audit', 1]
+        ]));
+        expect(groups.length).toBe(3);
+        expect(alerts.filter(a => a.type === 'new-group').length).toBe(3);
+        expect(alerts.some(a => a.type === 'burst')).toBe(false);
+        expect(groups.find((g: any) => g.reason === 'TTLExpiredException').errorDescription).toBe('expired');
+    });
+
+    it('should raise one burst alert with samples when the threshold is crossed', async () => {
+        const alerts: any[] = [];
+        controller = await ServiceBusAPI.watchDeadLetters(
+            ns, ['orders'], 'token', alert => alerts.push(alert), undefined,
+            { ...fast, burstThreshold: 4, burstWindowMs: 60000, maxSamples: 2 }
+        );
+
+        for (let i = 0; i < 6; i++) deadLetter('orders', 'Poison', 'OrderPlaced');
+
+        await vi.waitFor(() => expect(controller.getGroups()[0]?.count).toBe(6));
+        const bursts = alerts.filter(a => a.type === 'burst');
+        expect(bursts.length).toBe(1);
+        expect(bursts[0].recentCount).toBe(4);
+        expect(bursts[0].ratePerMinute).toBe(4);
+        expect(bursts[0].group.samples.length).toBe(2);
+        expect(bursts[0].group.samples[0].applicationProperties.DeadLetterReason).toBe('Poison');
+    });
+
+    it('should share a group across descriptions that only differ in ids and times', async () => {
+        controller = await ServiceBusAPI.watchDeadLetters(ns, ['orders'], 'token', () => { }, undefined, fast);
+
+        deadLetter('orders', 'Failed', 'OrderPlaced', 'Order 1001 failed at 2024-05-01T10:00:00Z (trace 0f8fad5b-d9cb-469f-a165-70867728950e)');
+        deadLetter('orders', 'Failed', 'OrderPlaced', 'Order 1002 failed at 2024-05-01T10:00:07Z (trace 7c9e6679-7425-40de-944b-e07fc1f90ae7)');
+
+        await vi.waitFor(() => expect(controller.getGroups()[0]?.count).toBe(2));
+        const groups = controller.getGroups();
+        expect(groups.length).toBe(1);
+        expect(groups[0].errorDescription).toBe('Order <n> failed at <time> (trace <id>)');
+        expect(groups[0].samples[1].applicationProperties.DeadLetterErrorDescription).toContain('1002');
+    });
+
+    it('should drop the least recently seen group past maxGroups', async () => {
+        const alerts: any[] = [];
+        controller = await ServiceBusAPI.watchDeadLetters(
+            ns, ['orders'], 'token', alert => alerts.push(alert), undefined, { ...fast, maxGroups: 2 }
+        );
+
+        deadLetter('orders', 'A', 'OrderPlaced');
+        deadLetter('orders', 'B', 'OrderPlaced');
+        deadLetter('orders', 'A', 'OrderPlaced');
+        deadLetter('orders', 'C', 'OrderPlaced');
+
+        await vi.waitFor(() => expect(alerts.filter(a => a.type === 'new-group').length).toBe(3));
+        expect(controller.getGroups().map((g: any) => [g.reason, g.count])).toEqual([['A', 2], ['C', 1]]);
+    });
+});
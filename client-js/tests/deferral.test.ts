@@ -0,0 +1,96 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { GlobalMockBroker } from '../src/mockBroker.js';
+import * as ServiceBusAPI from '../serviceBusApi.js';
+
+(globalThis as any).WebSocket = class { constructor() {} };
+
+// Mock the 'rhea' library to redirect to our MockBroker
+vi.mock('rhea', () => {
+    const mockRhea = {
+        connect: (opts: any) => GlobalMockBroker.connect(opts),
+        websocket_connect: (ws: any) => {
+            return (url: string, protocols: string[]) => {
+                return { url, protocols }; // dummy
+            };
+        },
+        message: {
+            data_section: (data: any) => data,
+            decode: (data: any) => data,
+            encode: (msg: any) => msg
+        },
+        types: {
+            wrap_long: (v: any) => v,
+            wrap_int: (v: any) => v,
+            wrap_uint: (v: any) => v,
+            wrap_array: (v: any) => v,
+            wrap_timestamp: (v: any) => v,
+            wrap_described: (v: any, d: any) => v,
+            wrap_binary: (v: any) => v
+        }
+    };
+
+    return {
+        ...mockRhea,
+        default: mockRhea,
+        message: mockRhea.message,
+        types: mockRhea.types
+    };
+});
+
+describe('Message Deferral', () => {
+    const ns = 'demo-ns';
+    const queue = 'defer-queue';
+
+    beforeEach(() => {
+        (globalThis as any).__BUSSIN_SIMULATOR_ACTIVE__ = true;
+        GlobalMockBroker.reset();
+        GlobalMockBroker.createQueue(queue);
+    });
+
+    it('should keep a deferred message out of normal receives', async () => {
+        await ServiceBusAPI.sendQueueMessage(ns, queue, 'token', { text: 'later' });
+        await ServiceBusAPI.sendQueueMessage(ns, queue, 'token', { text: 'now' });
+
+        const [first] = await ServiceBusAPI.receiveAndLockQueueMessage(ns, queue, 'token');
+        const result = await ServiceBusAPI.defer(first.lockToken);
+        expect(result.successCount).toBe(1);
+
+        const [next] = await ServiceBusAPI.receiveAndLockQueueMessage(ns, queue, 'token');
+        expect(next.sequenceNumber).not.toBe(first.sequenceNumber);
+        await ServiceBusAPI.complete(next.lockToken);
+
+        const remaining = await ServiceBusAPI.receiveAndLockQueueMessage(ns, queue, 'token', 1);
+        expect(remaining.length).toBe(0);
+
+        const peeked = await ServiceBusAPI.peekQueueMessages(ns, queue, 'token', 10);
+        expect(peeked.length).toBe(1);
+        expect(peeked[0].state).toBe(1);
+    });
+
+    it('should receive deferred messages by sequence number and settle them', async () => {
+        await ServiceBusAPI.sendQueueMessage(ns, queue, 'token', { text: 'deferred' });
+        const [locked] = await ServiceBusAPI.receiveAndLockQueueMessage(ns, queue, 'token');
+        await ServiceBusAPI.defer(locked.lockToken);
+
+        const deferred = await ServiceBusAPI.receiveDeferredQueueMessages(ns, queue, 'token', [locked.sequenceNumber!]);
+        expect(deferred.length).toBe(1);
+        expect(deferred[0].sequenceNumber).toBe(locked.sequenceNumber);
+
+        const result = await ServiceBusAPI.complete(deferred[0].lockToken);
+        expect(result.successCount).toBe(1);
+        expect(GlobalMockBroker.getMessages(queue).length).toBe(0);
+    });
+
+    it('should defer again through the management link', async () => {
+        await ServiceBusAPI.sendQueueMessage(ns, queue, 'token', { text: 'still-later' });
+        const [locked] = await ServiceBusAPI.receiveAndLockQueueMessage(ns, queue, 'token');
+        await ServiceBusAPI.defer(locked.lockToken);
+
+        const [deferred] = await ServiceBusAPI.receiveDeferredQueueMessages(ns, queue, 'token', [locked.sequenceNumber!]);
+        const result = await ServiceBusAPI.defer(deferred.lockToken);
+
+        expect(result.successCount).toBe(1);
+        expect(GlobalMockBroker.auditLog.some(a => a.startsWith('SETTLEMENT_DEFERRED (defer-queue)'))).toBe(true);
+        expect(GlobalMockBroker.getMessages(queue).length).toBe(1);
+    });
+});
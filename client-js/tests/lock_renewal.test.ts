@@ -0,0 +1,155 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { GlobalMockBroker } from '../src/mockBroker.js';
+import { ManagementClient } from '../src/managementClient.js';
+import * as ServiceBusAPI from '../serviceBusApi.js';
+
+(globalThis as any).WebSocket = class { constructor() {} };
+
+// Drive the mock broker's timers while a call is pending (tests with fake timers)
+const settle = async <T>(pending: Promise<T>): Promise<T> => {
+    await vi.advanceTimersByTimeAsync(50);
+    return await pending;
+};
+const renewals = () => GlobalMockBroker.auditLog.filter(a => a.startsWith('RENEW_LOCK (lock-queue)')).length;
+
+// Mock the 'rhea' library to redirect to our MockBroker
+vi.mock('rhea', () => {
+    const mockRhea = {
+        connect: (opts: any) => GlobalMockBroker.connect(opts),
+        websocket_connect: (ws: any) => {
+            return (url: string, protocols: string[]) => {
+                return { url, protocols }; // dummy
+            };
+        },
+        message: {
+            data_section: (data: any) => data,
+            decode: (data: any) => data,
+            encode: (msg: any) => msg
+        },
+        types: {
+            wrap_long: (v: any) => v,
+            wrap_int: (v: any) => v,
+            wrap_uint: (v: any) => v,
+            wrap_array: (v: any) => v,
+            wrap_timestamp: (v: any) => v,
+            wrap_described: (v: any, d: any) => v,
+            wrap_binary: (v: any) => v
+        }
+    };
+
+    return {
+        ...mockRhea,
+        default: mockRhea,
+        message: mockRhea.message,
+        types: mockRhea.types
+    };
+});
+
+describe('Lock Renewal', () => {
+    const ns = 'demo-ns';
+    const queue = 'lock-queue';
+
+    beforeEach(() => {
+        (globalThis as any).__BUSSIN_SIMULATOR_ACTIVE__ = true;
+        GlobalMockBroker.reset();
+        GlobalMockBroker.createQueue(queue);
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+        vi.restoreAllMocks();
+    });
+
+    it('should renew a peek-locked message and return the new lockedUntil', async () => {
+        await ServiceBusAPI.sendQueueMessage(ns, queue, 'token', { text: 'poison' });
+        const [locked] = await ServiceBusAPI.receiveAndLockQueueMessage(ns, queue, 'token');
+
+        const result = await ServiceBusAPI.renewLock([locked.lockToken]);
+
+        expect(result.successCount).toBe(1);
+        expect(result.failureCount).toBe(0);
+        expect(new Date(result.lockedUntil[locked.lockToken]).getTime()).toBeGreaterThan(Date.now());
+        expect(GlobalMockBroker.auditLog.some(a => a.startsWith('RENEW_LOCK (lock-queue)'))).toBe(true);
+
+        await ServiceBusAPI.complete([locked.lockToken]);
+    });
+
+    it('should report unknown lock tokens as failures', async () => {
+        const result = await ServiceBusAPI.renewLock('not-a-token');
+
+        expect(result.successCount).toBe(0);
+        expect(result.failureCount).toBe(1);
+        expect(result.errors[0].messageId).toBe('not-a-token');
+    });
+
+    it('should stop renewing once the message is settled', async () => {
+        await ServiceBusAPI.sendQueueMessage(ns, queue, 'token', { text: 'inspect-me' });
+        const [locked] = await ServiceBusAPI.receiveAndLockQueueMessage(ns, queue, 'token');
+
+        vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout'] });
+        const onRenewed = vi.fn();
+        const controller = ServiceBusAPI.autoRenewLock([locked.lockToken], { onRenewed });
+
+        await vi.advanceTimersByTimeAsync(50);
+        expect(onRenewed).toHaveBeenCalledTimes(1);
+        expect(controller.isRunning()).toBe(true);
+
+        await settle(ServiceBusAPI.complete([locked.lockToken]));
+        await vi.advanceTimersByTimeAsync(60 * 1000);
+
+        expect(controller.isRunning()).toBe(false);
+        expect(onRenewed).toHaveBeenCalledTimes(1);
+        expect(renewals()).toBe(1);
+    });
+
+    it('should keep renewing after a transient failure', async () => {
+        await ServiceBusAPI.sendQueueMessage(ns, queue, 'token', { text: 'busy-broker' });
+        const [locked] = await ServiceBusAPI.receiveAndLockQueueMessage(ns, queue, 'token');
+
+        vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout'] });
+        vi.spyOn(ManagementClient.prototype, 'renewLock').mockRejectedValueOnce(new Error('Renew lock failed: 503 - Server busy'));
+        const onRenewed = vi.fn();
+        const onError = vi.fn();
+        const controller = ServiceBusAPI.autoRenewLock([locked.lockToken], { onRenewed, onError });
+
+        await vi.advanceTimersByTimeAsync(50);
+        expect(onError).toHaveBeenCalledTimes(1);
+
+        await vi.advanceTimersByTimeAsync(5 * 1000);
+        expect(renewals()).toBe(1);
+        expect(onRenewed.mock.calls.at(-1)![0].successCount).toBe(1);
+        expect(controller.isRunning()).toBe(true);
+
+        controller.stop();
+        await settle(ServiceBusAPI.complete([locked.lockToken]));
+    });
+
+    it('should stop renewing a lock the broker reports as lost', async () => {
+        await ServiceBusAPI.sendQueueMessage(ns, queue, 'token', { text: 'expired' });
+        const [locked] = await ServiceBusAPI.receiveAndLockQueueMessage(ns, queue, 'token');
+
+        vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout'] });
+        const renew = vi.spyOn(ManagementClient.prototype, 'renewLock').mockRejectedValueOnce(new Error('Renew lock failed: 410 - The lock supplied is invalid'));
+        const onError = vi.fn();
+        const controller = ServiceBusAPI.autoRenewLock([locked.lockToken], { onError });
+
+        await vi.advanceTimersByTimeAsync(50);
+        expect(onError).toHaveBeenCalledTimes(1);
+
+        await vi.advanceTimersByTimeAsync(5 * 1000);
+        expect(controller.isRunning()).toBe(false);
+        expect(renew).toHaveBeenCalledTimes(1);
+
+        await settle(ServiceBusAPI.complete([locked.lockToken]));
+    });
+
+    it('should stop once the maximum duration is reached', async () => {
+        await ServiceBusAPI.sendQueueMessage(ns, queue, 'token', { text: 'short-lived' });
+        const [locked] = await ServiceBusAPI.receiveAndLockQueueMessage(ns, queue, 'token');
+
+        const controller = ServiceBusAPI.autoRenewLock([locked.lockToken], { maxDurationMs: 50 });
+
+        await vi.waitFor(() => expect(controller.isRunning()).toBe(false), { timeout: 2000 });
+        await ServiceBusAPI.complete([locked.lockToken]);
+    });
+});
@@ -0,0 +1,185 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { GlobalMockBroker } from '../src/mockBroker.js';
+import * as ServiceBusAPI from '../serviceBusApi.js';
+
+(globalThis as any).WebSocket = class { constructor() {} };
+
+// Mock the 'rhea' library to redirect to our MockBroker
+vi.mock('rhea', () => {
+    const mockRhea = {
+        connect: (opts: any) => GlobalMockBroker.connect(opts),
+        websocket_connect: (ws: any) => {
+            return (url: string, protocols: string[]) => {
+                return { url, protocols }; // dummy
+            };
+        },
+        message: {
+            data_section: (data: any) => data,
+            sequence_section: (list: any) => ({ typecode: 0x76, content: list }),
+            sequence_sections: (lists: any) => ({ typecode: 0x76, content: lists, multiple: true }),
+            decode: (data: any) => data,
+            encode: (msg: any) => msg
+        },
+        types: {
+            wrap_long: (v: any) => v,
+            wrap_int: (v: any) => v,
+            wrap_uint: (v: any) => v,
+            wrap_array: (v: any) => v,
+            wrap_timestamp: (v: any) => v,
+            wrap_described: (v: any, d: any) => v,
+            wrap_binary: (v: any) => v
+        }
+    };
+
+    return {
+        ...mockRhea,
+        default: mockRhea,
+        message: mockRhea.message,
+        types: mockRhea.types
+    };
+});
+
+
+describe('Multi-entity Monitor', () => {
+    const ns = 'monitor-ns';
+    const push = (path: string, id: string) => GlobalMockBroker.pushMessage(path, {
+        body: new TextEncoder().encode(id),
+        message_id: id
+    });
+    let controller: any = null;
+
+    beforeEach(() => {
+        (globalThis as any).__BUSSIN_SIMULATOR_ACTIVE__ = true;
+        GlobalMockBroker.reset();
+        ServiceBusAPI.disposeNamespace(ns);
+        GlobalMockBroker.createQueue('orders');
+        GlobalMockBroker.createQueue('billing');
+        GlobalMockBroker.createTopic('events');
+        GlobalMockBroker.createSubscription('events', 'audit');
+        vi.restoreAllMocks();
+    });
+
+    afterEach(() => {
+        controller?.stop();
+        controller = null;
+    });
+
+    it('should report new messages of every entity over one connection', async () => {
+        push('orders', 'old-order');
+        const { ServiceBusConnection } = await import('../src/connection.js');
+        const connect = vi.spyOn(ServiceBusConnection.prototype, 'connect');
+        const events: string[] = [];
+
+        controller = await ServiceBusAPI.monitorEntities(
+            ns, ['orders', 'billing', 'events/subscriptions/audit'], 'token',
+            event => { if (event.type === 'message') events.push(`${event.entityPath}:${event.message.messageId}`); },
+            undefined,
+            { includeDeadLetter: true, minIntervalMs: 5, maxIntervalMs: 20 }
+        );
+
+        push('orders', 'order-1');
+        push('orders/$DeadLetterQueue', 'dead-1');
+        push('events', 'event-1');
+
+        await vi.waitFor(() => expect(events.length).toBe(3));
+        expect(events.sort()).toEqual([
+            'events/subscriptions/audit:event-1',
+            'orders/$DeadLetterQueue:dead-1',
+            'orders:order-1'
+        ]);
+        expect(connect).toHaveBeenCalledTimes(1);
+        expect(controller.getStatus().map((s: any) => s.entityPath)).toEqual([
+            'orders', 'orders/$DeadLetterQueue',
+            'billing', 'billing/$DeadLetterQueue',
+            'events/subscriptions/audit', 'events/subscriptions/audit/$DeadLetterQueue'
+        ]);
+    });
+
+    it('should poll busy entities more often than idle ones', async () => {
+        controller = await ServiceBusAPI.monitorEntities(
+            ns, ['orders', 'billing'], 'token', () => { }, undefined, { minIntervalMs: 5, maxIntervalMs: 80 }
+        );
+
+        // Let the idle entities back off, then keep one busy
+        await new Promise(r => setTimeout(r, 200));
+        for (let i = 1; i <= 10; i++) {
+            push('orders', `order-${i}`);
+            await new Promise(r => setTimeout(r, 10));
+        }
+
+        const [orders, billing] = controller.getStatus();
+        expect(orders.lastSequenceNumber).toBeGreaterThan(5);
+        expect(orders.intervalMs).toBeLessThan(billing.intervalMs);
+        expect(billing.intervalMs).toBe(80);
+    });
+
+    it('should stop reporting after stop', async () => {
+        const events: string[] = [];
+        controller = await ServiceBusAPI.monitorEntities(
+            ns, ['orders'], 'token', event => { if (event.type === 'message') events.push(event.message.messageId!); }, undefined, { minIntervalMs: 5, maxIntervalMs: 10 }
+        );
+        controller.stop();
+
+        push('orders', 'order-1');
+        await new Promise(r => setTimeout(r, 50));
+        expect(events).toEqual([]);
+    });
+
+    it('should keep one pooled connection when an entity fails and refresh tokens through the .NET reference', async () => {
+        const { ServiceBusConnection } = await import('../src/connection.js');
+        const { ManagementClient } = await import('../src/managementClient.js');
+        const connect = vi.spyOn(ServiceBusConnection.prototype, 'connect');
+        const setProvider = vi.spyOn(ServiceBusConnection.prototype, 'setTokenProvider');
+        const dotnetRef = { invokeMethodAsync: vi.fn(async () => 'fresh-token') };
+        const errors: string[] = [];
+        const events: string[] = [];
+
+        controller = await ServiceBusAPI.monitorEntities(
+            ns, ['orders', 'billing'], 'token',
+            event => { if (event.type === 'message') events.push(event.message.messageId!); },
+            error => errors.push(error.message),
+            { minIntervalMs: 5, maxIntervalMs: 10, sampleIntervalMs: 0 },
+            dotnetRef
+        );
+
+        // Every attempt of one orders poll fails; billing carries on
+        const original = ManagementClient.prototype.peekMessages;
+        let failures = 3;
+        vi.spyOn(ManagementClient.prototype, 'peekMessages').mockImplementation(function (this: any, ...args) {
+            if (this.entityPath === 'orders' && failures-- > 0) {
+                return Promise.reject(new Error('link detached'));
+            }
+            return original.apply(this, args);
+        });
+        push('orders', 'order-1');
+        push('billing', 'invoice-1');
+
+        await vi.waitFor(() => expect(events.sort()).toEqual(['invoice-1', 'order-1']), { timeout: 3000 });
+        expect(errors.length).toBe(1);
+        expect(connect).toHaveBeenCalledTimes(1);
+        expect(setProvider).toHaveBeenCalled();
+        expect(dotnetRef.invokeMethodAsync).not.toHaveBeenCalled();
+    });
+
+    it('should keep going when the event callback throws', async () => {
+        const events: string[] = [];
+        const errors: string[] = [];
+        controller = await ServiceBusAPI.monitorEntities(
+            ns, ['orders'], 'token',
+            event => {
+                if (event.type !== 'message') return;
+                events.push(event.message.messageId!);
+                if (event.message.messageId === 'order-1') throw new Error('render failed');
+            },
+            error => errors.push(error.message),
+            { minIntervalMs: 5, maxIntervalMs: 10, sampleIntervalMs: 0 }
+        );
+
+        push('orders', 'order-1');
+        push('orders', 'order-2');
+
+        await vi.waitFor(() => expect(events).toEqual(['order-1', 'order-2']));
+        // The poll itself did not fail, so the link was not torn down
+        expect(errors).toEqual([]);
+    });
+});
@@ -0,0 +1,108 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { GlobalMockBroker } from '../src/mockBroker.js';
+import * as ServiceBusAPI from '../serviceBusApi.js';
+
+(globalThis as any).WebSocket = class { constructor() {} };
+
+// Mock the 'rhea' library to redirect to our MockBroker
+vi.mock('rhea', () => {
+    const mockRhea = {
+        connect: (opts: any) => GlobalMockBroker.connect(opts),
+        websocket_connect: (ws: any) => {
+            return (url: string, protocols: string[]) => {
+                return { url, protocols }; // dummy
+            };
+        },
+        message: {
+            data_section: (data: any) => data,
+            sequence_section: (list: any) => ({ typecode: 0x76, content: list }),
+            sequence_sections: (lists: any) => ({ typecode: 0x76, content: lists, multiple: true }),
+            decode: (data: any) => data,
+            encode: (msg: any) => msg
+        },
+        types: {
+            wrap_long: (v: any) => v,
+            wrap_int: (v: any) => v,
+            wrap_uint: (v: any) => v,
+            wrap_array: (v: any) => v,
+            wrap_timestamp: (v: any) => v,
+            wrap_described: (v: any, d: any) => v,
+            wrap_binary: (v: any) => v
+        }
+    };
+
+    return {
+        ...mockRhea,
+        default: mockRhea,
+        message: mockRhea.message,
+        types: mockRhea.types
+    };
+});
+
+
+describe('Filtered Monitor', () => {
+    const ns = 'filter-ns';
+    const push = (path: string, id: number, subject: string, region: string) => GlobalMockBroker.pushMessage(path, {
+        body: new TextEncoder().encode(JSON.stringify({ id, total: id * 10 })),
+        message_id: `msg-${id}`,
+        subject,
+        application_properties: { region, priority: id }
+    });
+    let controller: any = null;
+
+    beforeEach(() => {
+        (globalThis as any).__BUSSIN_SIMULATOR_ACTIVE__ = true;
+        GlobalMockBroker.reset();
+        ServiceBusAPI.disposeNamespace(ns);
+        GlobalMockBroker.createQueue('orders');
+    });
+
+    afterEach(() => {
+        controller?.stop();
+        controller = null;
+    });
+
+    it('should only pass matching messages to a single-entity monitor', async () => {
+        const received: string[] = [];
+        controller = await ServiceBusAPI.monitorQueue(
+            ns, 'orders', 'token', message => received.push(message.messageId!), undefined, undefined, undefined,
+            { filter: { subject: 'order', applicationProperties: { region: 'eu' }, bodyPattern: '/"total":[3-9]\\d/' } }
+        );
+
+        push('orders', 1, 'OrderPlaced', 'eu');  // total 10
+        push('orders', 3, 'OrderPlaced', 'eu');  // matches
+        push('orders', 4, 'OrderPlaced', 'us');
+        push('orders', 5, 'Refund', 'eu');
+        push('orders', 6, 'OrderShipped', 'eu'); // matches
+
+        await vi.waitFor(() => expect(controller.getFilteredOutCount()).toBe(3), { timeout: 3000 });
+        expect(received).toEqual(['msg-3', 'msg-6']);
+    });
+
+    it('should filter a multi-entity monitor with a query and count per entity', async () => {
+        GlobalMockBroker.createQueue('billing');
+        const received: string[] = [];
+        controller = await ServiceBusAPI.monitorEntities(
+            ns, ['orders', 'billing'], 'token',
+            event => { if (event.type === 'message') received.push(`${event.entityPath}:${event.message.messageId}`); },
+            undefined,
+            { minIntervalMs: 5, maxIntervalMs: 10, sampleIntervalMs: 0, filter: { query: "user.priority >= 2 AND $.total < 50" } }
+        );
+
+        push('orders', 1, 'a', 'eu');
+        push('orders', 2, 'a', 'eu');
+        push('billing', 4, 'a', 'eu');
+        push('billing', 7, 'a', 'eu');
+
+        await vi.waitFor(() => expect(controller.getFilteredOutCount()).toBe(2));
+        expect(received.sort()).toEqual(['billing:msg-4', 'orders:msg-2']);
+        expect(controller.getStatus().map((s: any) => s.filteredOutCount)).toEqual([1, 1]);
+    });
+
+    it('should reject an invalid filter before monitoring', async () => {
+        await expect(ServiceBusAPI.monitorEntities(ns, ['orders'], 'token', () => { }, undefined, { filter: { query: 'priority >' } }))
+            .rejects.toThrow('Monitor failed: Invalid search query');
+        await expect(ServiceBusAPI.monitorQueue(ns, 'orders', 'token', () => { }, undefined, undefined, undefined, { filter: { bodyPattern: '(' } }))
+            .rejects.toThrow('Monitor failed: Invalid body pattern');
+    });
+});
@@ -0,0 +1,130 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { GlobalMockBroker } from '../src/mockBroker.js';
+import * as ServiceBusAPI from '../serviceBusApi.js';
+
+(globalThis as any).WebSocket = class { constructor() {} };
+
+// Mock the 'rhea' library to redirect to our MockBroker
+vi.mock('rhea', () => {
+    const mockRhea = {
+        connect: (opts: any) => GlobalMockBroker.connect(opts),
+        websocket_connect: (ws: any) => {
+            return (url: string, protocols: string[]) => {
+                return { url, protocols }; // dummy
+            };
+        },
+        message: {
+            data_section: (data: any) => data,
+            sequence_section: (list: any) => ({ typecode: 0x76, content: list }),
+            sequence_sections: (lists: any) => ({ typecode: 0x76, content: lists, multiple: true }),
+            decode: (data: any) => data,
+            encode: (msg: any) => msg
+        },
+        types: {
+            wrap_long: (v: any) => v,
+            wrap_int: (v: any) => v,
+            wrap_uint: (v: any) => v,
+            wrap_array: (v: any) => v,
+            wrap_timestamp: (v: any) => v,
+            wrap_described: (v: any, d: any) => v,
+            wrap_binary: (v: any) => v
+        }
+    };
+
+    return {
+        ...mockRhea,
+        default: mockRhea,
+        message: mockRhea.message,
+        types: mockRhea.types
+    };
+});
+
+
+describe('Monitor Position', () => {
+    const ns = 'position-ns';
+    const pushMany = (count: number) => {
+        for (let i = 0; i < count; i++) {
+            GlobalMockBroker.pushMessage('orders', { body: new TextEncoder().encode('order'), message_id: `msg-${Math.random()}` });
+        }
+    };
+    const fast = { minIntervalMs: 5, maxIntervalMs: 10, sampleIntervalMs: 0 };
+    let controller: any = null;
+
+    beforeEach(() => {
+        (globalThis as any).__BUSSIN_SIMULATOR_ACTIVE__ = true;
+        GlobalMockBroker.reset();
+        ServiceBusAPI.disposeNamespace(ns);
+        GlobalMockBroker.createQueue('orders');
+        vi.restoreAllMocks();
+    });
+
+    afterEach(() => {
+        controller?.stop();
+        controller = null;
+    });
+
+    it('should start at the true tail of a deep queue', async () => {
+        pushMany(300);
+        const { ManagementClient } = await import('../src/managementClient.js');
+        const peek = vi.spyOn(ManagementClient.prototype, 'peekMessages');
+        const seen: number[] = [];
+
+        controller = await ServiceBusAPI.monitorQueue(ns, 'orders', 'token', message => seen.push(message.sequenceNumber!));
+        expect(controller.getPosition()).toEqual({ orders: 300 });
+        expect(peek.mock.calls.length).toBeLessThan(25);
+
+        pushMany(2);
+        await vi.waitFor(() => expect(seen).toEqual([301, 302]), { timeout: 3000 });
+    });
+
+    it('should start from a sequence number', async () => {
+        pushMany(300);
+        const seen: number[] = [];
+
+        controller = await ServiceBusAPI.monitorEntities(
+            ns, ['orders'], 'token', event => { if (event.type === 'message') seen.push(event.message.sequenceNumber); },
+            undefined, { ...fast, fromSequenceNumber: 296 }
+        );
+
+        await vi.waitFor(() => expect(seen).toEqual([296, 297, 298, 299, 300]));
+    });
+
+    it('should resume from a saved position without gaps or repeats', async () => {
+        const seen: number[] = [];
+        const onEvent = (event: any) => { if (event.type === 'message') seen.push(event.message.sequenceNumber); };
+
+        controller = await ServiceBusAPI.monitorEntities(ns, ['orders'], 'token', onEvent, undefined, fast);
+        pushMany(3);
+        await vi.waitFor(() => expect(seen).toEqual([1, 2, 3]));
+        const position = JSON.parse(JSON.stringify(controller.getPosition()));
+        controller.stop();
+
+        pushMany(2);
+        controller = await ServiceBusAPI.monitorEntities(ns, ['orders'], 'token', onEvent, undefined, { ...fast, resumeFrom: position });
+        pushMany(1);
+
+        await vi.waitFor(() => expect(seen).toEqual([1, 2, 3, 4, 5, 6]));
+    });
+
+    it('should continue after a failed poll without gaps or repeats', async () => {
+        const { ManagementClient } = await import('../src/managementClient.js');
+        const seen: number[] = [];
+        const errors: string[] = [];
+
+        controller = await ServiceBusAPI.monitorEntities(
+            ns, ['orders'], 'token', event => { if (event.type === 'message') seen.push(event.message.sequenceNumber); },
+            error => errors.push(error.message), fast
+        );
+        pushMany(2);
+        await vi.waitFor(() => expect(seen).toEqual([1, 2]));
+
+        // A poll retries a failing peek before giving up on it
+        const detached = new Error('link detached');
+        vi.spyOn(ManagementClient.prototype, 'peekMessages')
+            .mockRejectedValueOnce(detached).mockRejectedValueOnce(detached).mockRejectedValueOnce(detached);
+        pushMany(2);
+
+        await vi.waitFor(() => expect(seen).toEqual([1, 2, 3, 4]), { timeout: 3000 });
+        expect(errors).toEqual(['orders: link detached']);
+    });
+});
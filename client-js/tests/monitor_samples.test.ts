@@ -0,0 +1,136 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { GlobalMockBroker } from '../src/mockBroker.js';
+import * as ServiceBusAPI from '../serviceBusApi.js';
+
+(globalThis as any).WebSocket = class { constructor() {} };
+
+// Mock the 'rhea' library to redirect to our MockBroker
+vi.mock('rhea', () => {
+    const mockRhea = {
+        connect: (opts: any) => GlobalMockBroker.connect(opts),
+        websocket_connect: (ws: any) => {
+            return (url: string, protocols: string[]) => {
+                return { url, protocols }; // dummy
+            };
+        },
+        message: {
+            data_section: (data: any) => data,
+            sequence_section: (list: any) => ({ typecode: 0x76, content: list }),
+            sequence_sections: (lists: any) => ({ typecode: 0x76, content: lists, multiple: true }),
+            decode: (data: any) => data,
+            encode: (msg: any) => msg
+        },
+        types: {
+            wrap_long: (v: any) => v,
+            wrap_int: (v: any) => v,
+            wrap_uint: (v: any) => v,
+            wrap_array: (v: any) => v,
+            wrap_timestamp: (v: any) => v,
+            wrap_described: (v: any, d: any) => v,
+            wrap_binary: (v: any) => v
+        }
+    };
+
+    return {
+        ...mockRhea,
+        default: mockRhea,
+        message: mockRhea.message,
+        types: mockRhea.types
+    };
+});
+
+
+describe('Monitor Removed Messages And Samples', () => {
+    const ns = 'samples-ns';
+    const push = (id: number) => GlobalMockBroker.pushMessage('orders', {
+        body: new TextEncoder().encode(`message ${id}`),
+        message_id: `msg-${id}`,
+        message_annotations: { 'x-opt-enqueued-time': new Date(Date.now() - 60000) }
+    });
+    let controller: any = null;
+
+    beforeEach(() => {
+        (globalThis as any).__BUSSIN_SIMULATOR_ACTIVE__ = true;
+        GlobalMockBroker.reset();
+        ServiceBusAPI.disposeNamespace(ns);
+        GlobalMockBroker.createQueue('orders');
+        for (let i = 1; i <= 5; i++) push(i);
+    });
+
+    afterEach(() => {
+        controller?.stop();
+        controller = null;
+    });
+
+    it('should report removed messages, depth, head age and rates', async () => {
+        const events: any[] = [];
+        controller = await ServiceBusAPI.monitorEntities(
+            ns, ['orders'], 'token', event => events.push(event), undefined,
+            { minIntervalMs: 5, maxIntervalMs: 10, sampleIntervalMs: 20 }
+        );
+
+        const first = events.find(e => e.type === 'sample').sample;
+        expect(first.depth).toBe(5);
+        expect(first.depthIsExact).toBe(true);
+        expect(first.oldestMessageAgeMs).toBeGreaterThanOrEqual(60000);
+        expect(first.enqueueRate).toBeNull();
+
+        await ServiceBusAPI.deleteQueueMessagesBySequence(ns, 'orders', 'token', [1, 2, 3]);
+        push(6);
+
+        await vi.waitFor(() => expect(events.some(e => e.type === 'removed')).toBe(true));
+        const removed = events.find(e => e.type === 'removed');
+        expect(removed).toEqual({ type: 'removed', entityPath: 'orders', sequenceNumbers: [1, 2, 3] });
+
+        const sample = events.filter(e => e.type === 'sample').find(e => e.sample.depth === 3).sample;
+        expect(sample.dequeueRate).toBeGreaterThan(0);
+        expect(sample.enqueueRate).toBeGreaterThan(0);
+        expect(events.some(e => e.type === 'message' && e.message.sequenceNumber === 6)).toBe(true);
+    });
+
+    it('should only report removals within the window', async () => {
+        const events: any[] = [];
+        controller = await ServiceBusAPI.monitorEntities(
+            ns, ['orders'], 'token', event => events.push(event), undefined,
+            { minIntervalMs: 5, maxIntervalMs: 10, sampleIntervalMs: 20, windowSize: 2 }
+        );
+        expect(events[0].sample).toMatchObject({ depth: 2, depthIsExact: false });
+
+        await ServiceBusAPI.deleteQueueMessagesBySequence(ns, 'orders', 'token', [2, 5]);
+
+        await vi.waitFor(() => expect(events.some(e => e.type === 'removed')).toBe(true));
+        // 5 was never in the window
+        expect(events.filter(e => e.type === 'removed').flatMap(e => e.sequenceNumbers)).toEqual([2]);
+    });
+
+    it('should sample the default window with a single peek', async () => {
+        const { ManagementClient } = await import('../src/managementClient.js');
+        for (let i = 6; i <= 150; i++) push(i);
+        const peek = vi.spyOn(ManagementClient.prototype, 'peekMessages');
+        const events: any[] = [];
+
+        controller = await ServiceBusAPI.monitorEntities(
+            ns, ['orders'], 'token', event => events.push(event), undefined,
+            { minIntervalMs: 1000, maxIntervalMs: 1000, sampleIntervalMs: 60000 }
+        );
+
+        expect(events[0].sample).toMatchObject({ depth: 100, depthIsExact: false });
+        // Start position probes peek one message at a time; the window is read in one go
+        expect(peek.mock.calls.filter(([, count]) => count > 1)).toEqual([[0, 100, undefined]]);
+        peek.mockRestore();
+    });
+
+    it('should report events from a single-entity monitor', async () => {
+        const events: any[] = [];
+        controller = await ServiceBusAPI.monitorQueue(
+            ns, 'orders', 'token', () => { }, undefined, undefined,
+            event => events.push(event), { sampleIntervalMs: 20 }
+        );
+        expect(events[0]).toMatchObject({ type: 'sample', entityPath: 'orders', sample: { depth: 5 } });
+
+        await ServiceBusAPI.deleteQueueMessagesBySequence(ns, 'orders', 'token', [1]);
+
+        await vi.waitFor(() => expect(events.some(e => e.type === 'removed')).toBe(true), { timeout: 3000 });
+        expect(events.find(e => e.type === 'removed').sequenceNumbers).toEqual([1]);
+    });
+});
@@ -0,0 +1,113 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { GlobalMockBroker } from '../src/mockBroker.js';
+import * as ServiceBusAPI from '../serviceBusApi.js';
+import { MessageSender } from '../src/messageSender.js';
+
+(globalThis as any).WebSocket = class { constructor() {} };
+
+// Mock the 'rhea' library to redirect to our MockBroker
+vi.mock('rhea', () => {
+    const mockRhea = {
+        connect: (opts: any) => GlobalMockBroker.connect(opts),
+        websocket_connect: (ws: any) => {
+            return (url: string, protocols: string[]) => {
+                return { url, protocols }; // dummy
+            };
+        },
+        message: {
+            data_section: (data: any) => data,
+            sequence_section: (list: any) => ({ typecode: 0x76, content: list }),
+            sequence_sections: (lists: any) => ({ typecode: 0x76, content: lists, multiple: true }),
+            decode: (data: any) => data,
+            encode: (msg: any) => msg
+        },
+        types: {
+            wrap_long: (v: any) => v,
+            wrap_int: (v: any) => v,
+            wrap_uint: (v: any) => v,
+            wrap_array: (v: any) => v,
+            wrap_timestamp: (v: any) => v,
+            wrap_described: (v: any, d: any) => v,
+            wrap_binary: (v: any) => v
+        }
+    };
+
+    return {
+        ...mockRhea,
+        default: mockRhea,
+        message: mockRhea.message,
+        types: mockRhea.types
+    };
+});
+
+const cbsRequests = () => GlobalMockBroker.auditLog.filter(a => a === 'SEND (to: $cbs)').length;
+
+describe('Move Messages', () => {
+    const dlq = 'orders/$DeadLetterQueue';
+
+    beforeEach(() => {
+        (globalThis as any).__BUSSIN_SIMULATOR_ACTIVE__ = true;
+        GlobalMockBroker.reset();
+        GlobalMockBroker.createQueue('orders');
+        GlobalMockBroker.createQueue('orders-retry');
+        for (let i = 1; i <= 3; i++) {
+            GlobalMockBroker.pushMessage(dlq, {
+                body: new TextEncoder().encode(`order-${i}`),
+                message_id: `order-${i}`,
+                application_properties: { DeadLetterReason: 'Poison' }
+            });
+        }
+        vi.restoreAllMocks();
+    });
+
+    it('should move DLQ messages to another queue and complete the originals', async () => {
+        const result = await ServiceBusAPI.moveMessagesBySequence(
+            { namespace: 'ns-a', token: 'token', queueName: 'orders', fromDeadLetter: true },
+            { namespace: 'ns-a', token: 'token', queueName: 'orders-retry' },
+            [1, 3, 99],
+            { stripDeadLetterProperties: true }
+        );
+
+        expect(result.successCount).toBe(2);
+        expect(result.failureCount).toBe(1);
+        expect(result.results).toEqual([
+            { sequenceNumber: 1, messageId: 'order-1', status: 'moved' },
+            { sequenceNumber: 3, messageId: 'order-3', status: 'moved' },
+            { sequenceNumber: 99, messageId: undefined, status: 'not-found', error: 'Message not found' }
+        ]);
+
+        const moved = GlobalMockBroker.getMessages('orders-retry');
+        expect(moved.map(m => m.message_id)).toEqual(['order-1', 'order-3']);
+        expect(moved[0].application_properties.DeadLetterReason).toBeUndefined();
+        expect(GlobalMockBroker.getMessages(dlq).map(m => m.message_id)).toEqual(['order-2']);
+    });
+
+    it('should keep the original when the destination rejects the copy', async () => {
+        vi.spyOn(MessageSender.prototype, 'sendAmqpMessage').mockRejectedValueOnce(new Error('QuotaExceeded'));
+
+        const result = await ServiceBusAPI.moveMessagesBySequence(
+            { namespace: 'ns-a', token: 'token', queueName: 'orders', fromDeadLetter: true },
+            { namespace: 'ns-a', token: 'token', queueName: 'orders-retry' },
+            [1, 2]
+        );
+
+        expect(result.results.map(r => r.status)).toEqual(['send-failed', 'moved']);
+        expect(result.errors[0]).toEqual({ messageId: 'order-1', error: 'QuotaExceeded' });
+
+        const remaining = GlobalMockBroker.getMessages(dlq);
+        expect(remaining.map(m => m.message_id)).toEqual(['order-1', 'order-3']);
+        expect(remaining[0]._lockToken).toBeUndefined(); // Abandoned, not left locked
+    });
+
+    it('should move across namespaces with separate credentials', async () => {
+        const result = await ServiceBusAPI.moveMessagesBySequence(
+            { namespace: 'ns-a', token: 'token-a', queueName: 'orders', fromDeadLetter: true },
+            { namespace: 'ns-b', token: 'token-b', queueName: 'orders-retry' },
+            [2]
+        );
+
+        expect(result.successCount).toBe(1);
+        expect(cbsRequests()).toBe(2);
+        expect(GlobalMockBroker.getMessages('orders-retry').map(m => m.message_id)).toEqual(['order-2']);
+    });
+});
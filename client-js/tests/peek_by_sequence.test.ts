@@ -0,0 +1,86 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { GlobalMockBroker } from '../src/mockBroker.js';
+import * as ServiceBusAPI from '../serviceBusApi.js';
+
+(globalThis as any).WebSocket = class { constructor() {} };
+
+// Mock the 'rhea' library to redirect to our MockBroker
+vi.mock('rhea', () => {
+    const mockRhea = {
+        connect: (opts: any) => GlobalMockBroker.connect(opts),
+        websocket_connect: (ws: any) => {
+            return (url: string, protocols: string[]) => {
+                return { url, protocols }; // dummy
+            };
+        },
+        message: {
+            data_section: (data: any) => data,
+            sequence_section: (list: any) => ({ typecode: 0x76, content: list }),
+            sequence_sections: (lists: any) => ({ typecode: 0x76, content: lists, multiple: true }),
+            decode: (data: any) => data,
+            encode: (msg: any) => msg
+        },
+        types: {
+            wrap_long: (v: any) => v,
+            wrap_int: (v: any) => v,
+            wrap_uint: (v: any) => v,
+            wrap_array: (v: any) => v,
+            wrap_timestamp: (v: any) => v,
+            wrap_described: (v: any, d: any) => v,
+            wrap_binary: (v: any) => v
+        }
+    };
+
+    return {
+        ...mockRhea,
+        default: mockRhea,
+        message: mockRhea.message,
+        types: mockRhea.types
+    };
+});
+
+
+describe('Peek By Sequence', () => {
+    const ns = 'demo-ns';
+
+    beforeEach(() => {
+        (globalThis as any).__BUSSIN_SIMULATOR_ACTIVE__ = true;
+        GlobalMockBroker.reset();
+        GlobalMockBroker.createQueue('orders');
+        for (let i = 1; i <= 1000; i++) {
+            GlobalMockBroker.pushMessage('orders', { body: new TextEncoder().encode(`message ${i}`), message_id: `msg-${i}` });
+        }
+        vi.restoreAllMocks();
+    });
+
+    it('should peek nearby sequence numbers as one range', async () => {
+        const { ManagementClient } = await import('../src/managementClient.js');
+        const peek = vi.spyOn(ManagementClient.prototype, 'peekMessages');
+        const wanted = Array.from({ length: 200 }, (_, i) => 101 + i * 2); // every other message from 101 to 499
+
+        const { messages, missingSequenceNumbers } = await ServiceBusAPI.peekQueueMessagesBySequence(ns, 'orders', 'token', wanted);
+
+        expect(messages.map(m => m.sequenceNumber)).toEqual(wanted);
+        expect(missingSequenceNumbers).toEqual([]);
+        expect(peek.mock.calls.length).toBe(2);
+    });
+
+    it('should keep the request order and report missing sequence numbers', async () => {
+        const stored = GlobalMockBroker.getMessages('orders');
+        stored.splice(stored.findIndex((m: any) => m._sequenceNumber === 12), 1);
+
+        const { messages, missingSequenceNumbers } = await ServiceBusAPI.peekQueueMessagesBySequence(ns, 'orders', 'token', [900, 12, 10, 5000, 11, 10]);
+
+        expect(messages.map(m => m.messageId)).toEqual(['msg-900', 'msg-10', 'msg-11']);
+        expect(missingSequenceNumbers).toEqual([12, 5000]);
+    });
+
+    it('should peek from the DLQ', async () => {
+        GlobalMockBroker.pushMessage('orders/$DeadLetterQueue', { body: new TextEncoder().encode('dead'), message_id: 'dead-1' });
+
+        const { messages, missingSequenceNumbers } = await ServiceBusAPI.peekQueueMessagesBySequence(ns, 'orders', 'token', [1, 2], true);
+
+        expect(messages.map(m => m.messageId)).toEqual(['dead-1']);
+        expect(missingSequenceNumbers).toEqual([2]);
+    });
+});
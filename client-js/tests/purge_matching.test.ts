@@ -0,0 +1,194 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { GlobalMockBroker } from '../src/mockBroker.js';
+import * as ServiceBusAPI from '../serviceBusApi.js';
+
+(globalThis as any).WebSocket = class { constructor() {} };
+
+// Mock the 'rhea' library to redirect to our MockBroker
+vi.mock('rhea', () => {
+    const mockRhea = {
+        connect: (opts: any) => GlobalMockBroker.connect(opts),
+        websocket_connect: (ws: any) => {
+            return (url: string, protocols: string[]) => {
+                return { url, protocols }; // dummy
+            };
+        },
+        message: {
+            data_section: (data: any) => data,
+            sequence_section: (list: any) => ({ typecode: 0x76, content: list }),
+            sequence_sections: (lists: any) => ({ typecode: 0x76, content: lists, multiple: true }),
+            decode: (data: any) => data,
+            encode: (msg: any) => msg
+        },
+        types: {
+            wrap_long: (v: any) => v,
+            wrap_int: (v: any) => v,
+            wrap_uint: (v: any) => v,
+            wrap_array: (v: any) => v,
+            wrap_timestamp: (v: any) => v,
+            wrap_described: (v: any, d: any) => v,
+            wrap_binary: (v: any) => v
+        }
+    };
+
+    return {
+        ...mockRhea,
+        default: mockRhea,
+        message: mockRhea.message,
+        types: mockRhea.types
+    };
+});
+
+
+describe('Filtered Purge', () => {
+    const ns = 'purge-matching-ns';
+
+    beforeEach(() => {
+        (globalThis as any).__BUSSIN_SIMULATOR_ACTIVE__ = true;
+        GlobalMockBroker.reset();
+        GlobalMockBroker.createQueue('mixed');
+        for (let i = 1; i <= 150; i++) {
+            GlobalMockBroker.pushMessage('mixed', {
+                body: new TextEncoder().encode(JSON.stringify({ id: i })),
+                message_id: `msg-${i}`,
+                subject: i % 10 === 0 ? 'poison' : 'order'
+            });
+        }
+    });
+
+    afterEach(() => {
+        ServiceBusAPI.disposeNamespace(ns);
+    });
+
+    const remainingSubjects = () => GlobalMockBroker.getMessages('mixed').map((m: any) => m.subject);
+
+    it('should delete only the matching messages and report progress', async () => {
+        const progress: number[][] = [];
+        const controller = await ServiceBusAPI.purgeMatching(
+            ns, 'mixed', 'token', "sys.label = 'poison'",
+            (deleted, scanned, matches, newlyDeleted) => progress.push([deleted, scanned, matches, newlyDeleted.length]),
+            { batchSize: 4 }
+        );
+        const result = await controller.promise;
+
+        expect(result.completed).toBe(true);
+        expect(result.scannedCount).toBe(150);
+        expect(result.matchCount).toBe(15);
+        expect(result.deletedCount).toBe(15);
+        expect(result.skippedCount).toBe(0);
+        expect(result.deletedSequenceNumbers).toEqual([10, 20, 30, 40, 50, 60, 70, 80, 90, 100, 110, 120, 130, 140, 150]);
+        expect(remainingSubjects()).toHaveLength(135);
+        expect(remainingSubjects()).not.toContain('poison');
+        expect(progress[progress.length - 1]).toEqual([15, 150, 15, 3]);
+    });
+
+    it('should skip a message that no longer matches when it is locked', async () => {
+        const controller = await ServiceBusAPI.purgeMatching(
+            ns, 'mixed', 'token', "sys.label = 'poison'",
+            () => {
+                // Changed between the scan and the delete
+                const message = GlobalMockBroker.getMessages('mixed').find((m: any) => m._sequenceNumber === 20);
+                if (message) message.subject = 'order';
+            },
+            { batchSize: 1000 }
+        );
+        const result = await controller.promise;
+
+        expect(result.matchCount).toBe(15);
+        expect(result.deletedCount).toBe(14);
+        expect(result.skippedCount).toBe(1);
+        expect(result.deletedSequenceNumbers).not.toContain(20);
+
+        const kept = GlobalMockBroker.getMessages('mixed').find((m: any) => m._sequenceNumber === 20);
+        expect(kept).toBeDefined();
+        expect(kept._lockToken).toBeUndefined();
+    });
+
+    it('should delete by sequence number without locking when verify is off', async () => {
+        const controller = await ServiceBusAPI.purgeMatching(ns, 'mixed', 'token', "sys.messageid = 'msg-7'", null, { verify: false });
+        const result = await controller.promise;
+
+        expect(result.deletedSequenceNumbers).toEqual([7]);
+        expect(GlobalMockBroker.getMessages('mixed')).toHaveLength(149);
+    });
+
+    it('should count only messages the broker actually deleted when verify is off', async () => {
+        const controller = await ServiceBusAPI.purgeMatching(
+            ns, 'mixed', 'token', "sys.label = 'poison'",
+            () => {
+                // Consumed by someone else between the scan and the delete
+                const stored = GlobalMockBroker.getMessages('mixed');
+                const index = stored.findIndex((m: any) => m._sequenceNumber === 20);
+                if (index !== -1) stored.splice(index, 1);
+            },
+            { batchSize: 1000, verify: false }
+        );
+        const result = await controller.promise;
+
+        expect(result.matchCount).toBe(15);
+        expect(result.deletedCount).toBe(14);
+        expect(result.skippedCount).toBe(1);
+        expect(result.deletedSequenceNumbers).not.toContain(20);
+    });
+
+    it('should count only the completions that succeeded', async () => {
+        const { ManagementClient } = await import('../src/managementClient.js');
+        const original = ManagementClient.prototype.updateDisposition;
+        let singleCompletes = 0;
+        const spy = vi.spyOn(ManagementClient.prototype, 'updateDisposition').mockImplementation(function (this: any, lockTokens, disposition, ...rest) {
+            // Every batch fails, and so does the very first message on its own
+            if (disposition === 'completed' && (lockTokens.length > 1 || singleCompletes++ === 0)) {
+                return Promise.reject(new Error('lock lost'));
+            }
+            return original.call(this, lockTokens, disposition, ...rest);
+        });
+
+        try {
+            const controller = await ServiceBusAPI.purgeMatching(ns, 'mixed', 'token', "sys.label = 'poison'", null, { batchSize: 5 });
+            const result = await controller.promise;
+
+            expect(result.matchCount).toBe(15);
+            expect(result.deletedCount).toBe(14);
+            expect(result.skippedCount).toBe(1);
+            expect(result.deletedSequenceNumbers).not.toContain(10);
+        } finally {
+            spy.mockRestore();
+        }
+    });
+
+    it('should continue a stopped purge from its serialized cursor', async () => {
+        const controller = await ServiceBusAPI.purgeMatching(
+            ns, 'mixed', 'token', "sys.label = 'poison'",
+            () => controller.stop(),
+            { batchSize: 3 }
+        );
+        const first = await controller.promise;
+
+        expect(first.completed).toBe(false);
+        expect(first.scannedCount).toBe(100);
+        expect(first.deletedCount).toBe(10);
+        expect(first.cursor.nextSequenceNumber).toBe(101);
+        expect(first.cursor).toEqual(controller.getCursor());
+
+        const cursor = JSON.parse(JSON.stringify(first.cursor));
+        const resumed = await ServiceBusAPI.resumePurgeMatching(cursor, 'token');
+        const result = await resumed.promise;
+
+        expect(result.completed).toBe(true);
+        expect(result.scannedCount).toBe(150);
+        expect(result.deletedCount).toBe(15);
+        expect(result.deletedSequenceNumbers).toEqual([110, 120, 130, 140, 150]);
+        expect(result.cursor.options.batchSize).toBe(3);
+        expect(remainingSubjects()).not.toContain('poison');
+    });
+
+    it('should refuse an empty or invalid query before touching the entity', async () => {
+        await expect(ServiceBusAPI.purgeMatching(ns, 'mixed', 'token', '  '))
+            .rejects.toThrow('Failed to start purge: a query is required');
+        await expect(ServiceBusAPI.purgeMatching(ns, 'mixed', 'token', "sys.label = "))
+            .rejects.toThrow('Failed to start purge');
+        await expect(ServiceBusAPI.resumePurgeMatching({ version: 99 } as any, 'token'))
+            .rejects.toThrow('Failed to resume purge: invalid or unsupported cursor');
+        expect(GlobalMockBroker.getMessages('mixed')).toHaveLength(150);
+    });
+});
@@ -0,0 +1,108 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { GlobalMockBroker } from '../src/mockBroker.js';
+import * as ServiceBusAPI from '../serviceBusApi.js';
+
+(globalThis as any).WebSocket = class { constructor() {} };
+
+// Mock the 'rhea' library to redirect to our MockBroker
+vi.mock('rhea', () => {
+    const mockRhea = {
+        connect: (opts: any) => GlobalMockBroker.connect(opts),
+        websocket_connect: (ws: any) => {
+            return (url: string, protocols: string[]) => {
+                return { url, protocols }; // dummy
+            };
+        },
+        message: {
+            data_section: (data: any) => data,
+            sequence_section: (list: any) => ({ typecode: 0x76, content: list }),
+            sequence_sections: (lists: any) => ({ typecode: 0x76, content: lists, multiple: true }),
+            decode: (data: any) => data,
+            encode: (msg: any) => msg
+        },
+        types: {
+            wrap_long: (v: any) => v,
+            wrap_int: (v: any) => v,
+            wrap_uint: (v: any) => v,
+            wrap_array: (v: any) => v,
+            wrap_timestamp: (v: any) => v,
+            wrap_described: (v: any, d: any) => v,
+            wrap_binary: (v: any) => v
+        }
+    };
+
+    return {
+        ...mockRhea,
+        default: mockRhea,
+        message: mockRhea.message,
+        types: mockRhea.types
+    };
+});
+
+describe('Resubmit', () => {
+    const ns = 'demo-ns';
+    const queue = 'orders';
+    const dlq = 'orders/$DeadLetterQueue';
+
+    beforeEach(() => {
+        (globalThis as any).__BUSSIN_SIMULATOR_ACTIVE__ = true;
+        GlobalMockBroker.reset();
+        GlobalMockBroker.createQueue(queue);
+        GlobalMockBroker.pushMessage(dlq, {
+            body: new Uint8Array([0x1f, 0x8b, 0xff]),
+            message_id: 'order-7',
+            correlation_id: 'corr-7',
+            content_type: 'application/gzip',
+            group_id: 'customer-3',
+            subject: 'OrderPlaced',
+            ttl: 60000,
+            creation_time: new Date('2026-01-02T03:04:05.000Z'),
+            application_properties: { tenant: 'contoso', DeadLetterReason: 'MaxDeliveryCountExceeded', DeadLetterErrorDescription: 'gave up' },
+            message_annotations: { 'x-opt-deadletter-source': 'orders', 'x-opt-partition-key': 'customer-3' }
+        });
+    });
+
+    it('should rebuild the original message exactly', async () => {
+        const dead = await ServiceBusAPI.peekQueueMessages(ns, queue, 'token', 10, 0, true);
+        const result = await ServiceBusAPI.resubmitQueueMessages(ns, queue, 'token', dead);
+
+        expect(result.successCount).toBe(1);
+        const [resent] = GlobalMockBroker.getMessages(queue);
+        expect(Array.from(resent.body)).toEqual([0x1f, 0x8b, 0xff]);
+        expect(resent.message_id).toBe('order-7');
+        expect(resent.correlation_id).toBe('corr-7');
+        expect(resent.content_type).toBe('application/gzip');
+        expect(resent.group_id).toBe('customer-3');
+        expect(resent.subject).toBe('OrderPlaced');
+        expect(resent.ttl).toBe(60000);
+        expect(resent.creation_time.toISOString()).toBe('2026-01-02T03:04:05.000Z');
+        expect(resent.application_properties).toEqual({
+            tenant: 'contoso', DeadLetterReason: 'MaxDeliveryCountExceeded', DeadLetterErrorDescription: 'gave up'
+        });
+        expect(resent.message_annotations['x-opt-partition-key']).toBe('customer-3');
+        expect(resent.message_annotations['x-opt-sequence-number']).toBe(1); // Assigned fresh by the target
+    });
+
+    it('should strip dead-letter properties and stamp bussin when asked', async () => {
+        const dead = await ServiceBusAPI.peekQueueMessages(ns, queue, 'token', 10, 0, true);
+        await ServiceBusAPI.resubmitQueueMessages(ns, queue, 'token', dead, { stripDeadLetterProperties: true, stampBussin: true });
+
+        const [resent] = GlobalMockBroker.getMessages(queue);
+        expect(resent.application_properties.tenant).toBe('contoso');
+        expect(resent.application_properties.DeadLetterReason).toBeUndefined();
+        expect(resent.application_properties.DeadLetterErrorDescription).toBeUndefined();
+        expect(resent.application_properties['x-bussin-sent-via']).toBe('bussin.dev');
+        expect(resent.message_annotations['x-opt-deadletter-source']).toBeUndefined();
+    });
+
+    it('should keep amqp-value bodies in their section', async () => {
+        GlobalMockBroker.pushMessage(dlq, { body: { orderId: 8 }, message_id: 'jms-8' });
+        const dead = await ServiceBusAPI.peekQueueMessages(ns, queue, 'token', 10, 0, true);
+
+        await ServiceBusAPI.resubmitQueueMessages(ns, queue, 'token', dead.filter(m => m.messageId === 'jms-8'));
+
+        const [resent] = GlobalMockBroker.getMessages(queue);
+        expect(resent.body).toEqual({ orderId: 8 });
+        expect(resent.content_type).toBeUndefined();
+    });
+});
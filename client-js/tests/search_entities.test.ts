@@ -0,0 +1,128 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { GlobalMockBroker } from '../src/mockBroker.js';
+import * as ServiceBusAPI from '../serviceBusApi.js';
+
+(globalThis as any).WebSocket = class { constructor() {} };
+
+// Mock the 'rhea' library to redirect to our MockBroker
+vi.mock('rhea', () => {
+    const mockRhea = {
+        connect: (opts: any) => GlobalMockBroker.connect(opts),
+        websocket_connect: (ws: any) => {
+            return (url: string, protocols: string[]) => {
+                return { url, protocols }; // dummy
+            };
+        },
+        message: {
+            data_section: (data: any) => data,
+            sequence_section: (list: any) => ({ typecode: 0x76, content: list }),
+            sequence_sections: (lists: any) => ({ typecode: 0x76, content: lists, multiple: true }),
+            decode: (data: any) => data,
+            encode: (msg: any) => msg
+        },
+        types: {
+            wrap_long: (v: any) => v,
+            wrap_int: (v: any) => v,
+            wrap_uint: (v: any) => v,
+            wrap_array: (v: any) => v,
+            wrap_timestamp: (v: any) => v,
+            wrap_described: (v: any, d: any) => v,
+            wrap_binary: (v: any) => v
+        }
+    };
+
+    return {
+        ...mockRhea,
+        default: mockRhea,
+        message: mockRhea.message,
+        types: mockRhea.types
+    };
+});
+
+
+describe('Namespace-wide Search', () => {
+    const ns = 'demo-ns';
+    const push = (path: string, orderId: string) => GlobalMockBroker.pushMessage(path, {
+        body: new TextEncoder().encode(JSON.stringify({ orderId })),
+        message_id: `msg-${orderId}`,
+        application_properties: { orderId }
+    });
+
+    beforeEach(() => {
+        (globalThis as any).__BUSSIN_SIMULATOR_ACTIVE__ = true;
+        GlobalMockBroker.reset();
+        GlobalMockBroker.createQueue('orders');
+        GlobalMockBroker.createQueue('billing');
+        GlobalMockBroker.createTopic('events');
+        GlobalMockBroker.createSubscription('events', 'audit');
+
+        push('orders', 'A-1');
+        push('orders', 'A-42');
+        push('orders/$DeadLetterQueue', 'A-42');
+        push('billing', 'A-7');
+        push('events', 'A-42');
+    });
+
+    it('should search every entity and its DLQ with one query', async () => {
+        const progress: string[] = [];
+        const controller = await ServiceBusAPI.searchEntities(
+            ns, 'token', ['orders', 'billing', 'events/subscriptions/audit'], "user.orderId = 'A-42'",
+            (entityPath, entity) => { if (entity.status !== 'searching') progress.push(`${entityPath}:${entity.status}`); },
+            { includeDeadLetter: true, concurrency: 2 }
+        );
+        const result = await controller.promise;
+
+        expect(result.entities.map(e => e.entityPath)).toEqual([
+            'orders', 'orders/$DeadLetterQueue',
+            'billing', 'billing/$DeadLetterQueue',
+            'events/subscriptions/audit', 'events/subscriptions/audit/$DeadLetterQueue'
+        ]);
+        expect(result.entities.every(e => e.status === 'completed')).toBe(true);
+        expect(result.matchCount).toBe(3);
+        expect(result.scannedCount).toBe(5);
+
+        const byPath = Object.fromEntries(result.entities.map(e => [e.entityPath, e]));
+        expect(byPath['orders'].matchingSequenceNumbers).toEqual([2]);
+        expect(byPath['orders/$DeadLetterQueue'].matchCount).toBe(1);
+        expect(byPath['billing'].matchCount).toBe(0);
+        expect(byPath['events/subscriptions/audit'].matchCount).toBe(1);
+        expect(progress).toContain('orders:completed');
+        expect(progress).toContain('events/subscriptions/audit/$DeadLetterQueue:completed');
+    });
+
+    it('should stop every entity at once', async () => {
+        const controller = await ServiceBusAPI.searchEntities(
+            ns, 'token', ['orders', 'billing', 'events/subscriptions/audit'], "user.orderId LIKE 'A-%'",
+            (_path, entity) => { if (entity.matchCount > 0) controller.stop(); },
+            { concurrency: 1 }
+        );
+        const result = await controller.promise;
+
+        expect(result.entities.map(e => e.status)).toEqual(['stopped', 'stopped', 'stopped']);
+        expect(result.matchCount).toBe(2);
+        expect(controller.getProgress()).toEqual(result.entities);
+    });
+
+    it('should report entities cut short by a per-entity limit as limited', async () => {
+        const controller = await ServiceBusAPI.searchEntities(
+            ns, 'token', ['orders', 'billing'], "user.orderId LIKE 'A-%'", null,
+            { maxMatchesPerEntity: 1 }
+        );
+        const result = await controller.promise;
+
+        expect(result.entities.map(e => e.status)).toEqual(['limited', 'limited']);
+        expect(result.entities.map(e => e.matchCount)).toEqual([1, 1]);
+        expect(result.entities[0].scannedCount).toBe(1);
+
+        const unlimited = await (await ServiceBusAPI.searchEntities(
+            ns, 'token', ['orders', 'billing'], "user.orderId LIKE 'A-%'", null,
+            { maxMatchesPerEntity: 5 }
+        )).promise;
+        expect(unlimited.entities.map(e => e.status)).toEqual(['completed', 'completed']);
+    });
+
+    it('should reject an invalid query before searching', async () => {
+        await expect(ServiceBusAPI.searchEntities(ns, 'token', ['orders'], 'user.orderId ='))
+            .rejects.toThrow('Failed to start search: Invalid search query');
+    });
+});
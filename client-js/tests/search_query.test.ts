@@ -0,0 +1,151 @@
+import { describe, it, expect, vi } from 'vitest';
+import { GlobalMockBroker } from '../src/mockBroker.js';
+import * as ServiceBusAPI from '../serviceBusApi.js';
+import { compileSearchQuery } from '../src/searchQuery.js';
+import type { ServiceBusMessage } from '../src/types.js';
+
+(globalThis as any).WebSocket = class { constructor() {} };
+
+// Mock the 'rhea' library to redirect to our MockBroker
+vi.mock('rhea', () => {
+    const mockRhea = {
+        connect: (opts: any) => GlobalMockBroker.connect(opts),
+        websocket_connect: (ws: any) => {
+            return (url: string, protocols: string[]) => {
+                return { url, protocols }; // dummy
+            };
+        },
+        message: {
+            data_section: (data: any) => data,
+            sequence_section: (list: any) => ({ typecode: 0x76, content: list }),
+            sequence_sections: (lists: any) => ({ typecode: 0x76, content: lists, multiple: true }),
+            decode: (data: any) => data,
+            encode: (msg: any) => msg
+        },
+        types: {
+            wrap_long: (v: any) => v,
+            wrap_int: (v: any) => v,
+            wrap_uint: (v: any) => v,
+            wrap_array: (v: any) => v,
+            wrap_timestamp: (v: any) => v,
+            wrap_described: (v: any, d: any) => v,
+            wrap_binary: (v: any) => v
+        }
+    };
+
+    return {
+        ...mockRhea,
+        default: mockRhea,
+        message: mockRhea.message,
+        types: mockRhea.types
+    };
+});
+
+
+const message = (overrides: Partial<ServiceBusMessage>): ServiceBusMessage => ({
+    messageId: 'order-1',
+    body: '{"order":{"id":42,"total":150.5,"items":[{"sku":"A-1"}]},"customer":{"email":"ann@example.com"}}',
+    bodyBase64: undefined,
+    bodyIsUtf8: true,
+    bodyType: 'data',
+    bodyValue: undefined,
+    contentType: 'application/json',
+    correlationId: undefined,
+    sessionId: 'customer-7',
+    subject: 'order.created',
+    replyTo: undefined,
+    to: undefined,
+    deliveryCount: 4,
+    enqueuedTime: '2024-05-02T10:00:00.000Z',
+    sequenceNumber: 12,
+    lockedUntil: undefined,
+    scheduledEnqueueTime: undefined,
+    partitionKey: undefined,
+    state: undefined,
+    applicationProperties: { region: 'eu', priority: 3, isRetry: true, 'retry reason': 'timeout', DeadLetterReason: 'MaxDeliveryCountExceeded' },
+    messageAnnotations: {},
+    properties: {},
+    ttl: undefined,
+    expiryTime: undefined,
+    creationTime: undefined,
+    ...overrides
+});
+
+const matches = (query: string, msg: ServiceBusMessage = message({})) => compileSearchQuery(query)(msg);
+
+describe('Search Query Language', () => {
+    it('should evaluate Service Bus SQL filter expressions', () => {
+        expect(matches("sys.Label = 'order.created' AND region = 'eu'")).toBe(true);
+        expect(matches("sys.label = 'order.created' AND user.region <> 'eu'")).toBe(false);
+        expect(matches("sys.DeliveryCount > 3 AND priority IN (1, 2, 3)")).toBe(true);
+        expect(matches("region NOT IN ('us', 'apac')")).toBe(true);
+        expect(matches("sys.MessageId LIKE 'order-_' AND sys.ContentType LIKE 'application/%'")).toBe(true);
+        expect(matches("sys.MessageId LIKE 'order!_%' ESCAPE '!'")).toBe(false);
+        expect(matches("(region = 'us' OR sys.SessionId = 'customer-7') AND NOT isRetry = false")).toBe(true);
+        expect(matches("isRetry AND EXISTS(priority) AND [retry reason] = 'timeout'")).toBe(true);
+        expect(matches("sys.DeadLetterReason = 'MaxDeliveryCountExceeded'")).toBe(true);
+    });
+
+    it('should treat missing properties as unknown', () => {
+        expect(matches("missing = 'x'")).toBe(false);
+        expect(matches("NOT missing = 'x'")).toBe(false);
+        expect(matches("missing IS NULL AND sys.CorrelationId IS NULL")).toBe(true);
+        expect(matches("missing = 'x' OR region = 'eu'")).toBe(true);
+        expect(matches("EXISTS(missing)")).toBe(false);
+    });
+
+    it('should compare enqueued time ranges', () => {
+        expect(matches("sys.EnqueuedTimeUtc >= '2024-05-01T00:00:00Z' AND sys.EnqueuedTimeUtc < '2024-05-03'")).toBe(true);
+        expect(matches("sys.EnqueuedTimeUtc > '2024-05-02T10:00:01Z'")).toBe(false);
+    });
+
+    it('should read JSON paths into the body and match regular expressions', () => {
+        expect(matches('$.order.total > 100 AND body.order.id = 42')).toBe(true);
+        expect(matches("body.order.items[0].sku = 'A-1'")).toBe(true);
+        expect(matches("$.customer.email MATCHES '/@EXAMPLE\\.com$/i'")).toBe(true);
+        expect(matches("sys.MessageId MATCHES '^order-\\d+$' AND body MATCHES 'customer'")).toBe(true);
+        expect(matches('$.order.total > 100', message({ body: 'not json' }))).toBe(false);
+        expect(matches("$.kind = 'ping'", message({ bodyType: 'value', bodyValue: { kind: 'ping' }, body: '{"kind":"ping"}' }))).toBe(true);
+    });
+
+    it('should match every message with a global or sticky regular expression', () => {
+        for (const flags of ['g', 'y']) {
+            const predicate = compileSearchQuery(`sys.MessageId MATCHES '/^order-/${flags}'`);
+            expect([1, 2, 3, 4].map(() => predicate(message({})))).toEqual([true, true, true, true]);
+        }
+    });
+
+    it('should report syntax errors with their position', () => {
+        expect(() => compileSearchQuery("region = 'eu' AND")).toThrow('Invalid search query at position 18: unexpected end of query');
+        expect(() => compileSearchQuery("region = 'eu")).toThrow('position 10: unterminated string');
+        expect(() => compileSearchQuery('sys.Nope = 1')).toThrow("unknown system property 'sys.Nope'");
+        expect(() => compileSearchQuery("body MATCHES '('")).toThrow('invalid regular expression');
+        expect(() => compileSearchQuery('(region = 1')).toThrow("expected ')'");
+    });
+
+    it('should search an entity with a query', async () => {
+        (globalThis as any).__BUSSIN_SIMULATOR_ACTIVE__ = true;
+        GlobalMockBroker.reset();
+        GlobalMockBroker.createQueue('orders');
+        const regions = ['eu', 'us', 'eu', 'apac'];
+        regions.forEach((region, i) => GlobalMockBroker.pushMessage('orders', {
+            body: new TextEncoder().encode(JSON.stringify({ total: i * 100 })),
+            message_id: `order-${i}`,
+            application_properties: { region }
+        }));
+
+        const controller = await ServiceBusAPI.searchQueueMessages(
+            'demo-ns', 'orders', 'token', false, '', '', '', 100, 10, null,
+            "region = 'eu' OR $.total >= 300"
+        );
+        const result = await controller.promise;
+
+        expect(result.scannedCount).toBe(4);
+        expect(result.matchingSequenceNumbers).toEqual([1, 3, 4]);
+    });
+
+    it('should refuse to start a search with an invalid query', async () => {
+        await expect(ServiceBusAPI.searchQueueMessages('demo-ns', 'orders', 'token', false, '', '', '', 100, 10, null, 'region ='))
+            .rejects.toThrow('Failed to start search: Invalid search query');
+    });
+});
@@ -0,0 +1,105 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { GlobalMockBroker } from '../src/mockBroker.js';
+import * as ServiceBusAPI from '../serviceBusApi.js';
+
+(globalThis as any).WebSocket = class { constructor() {} };
+
+// Mock the 'rhea' library to redirect to our MockBroker
+vi.mock('rhea', () => {
+    const mockRhea = {
+        connect: (opts: any) => GlobalMockBroker.connect(opts),
+        websocket_connect: (ws: any) => {
+            return (url: string, protocols: string[]) => {
+                return { url, protocols }; // dummy
+            };
+        },
+        message: {
+            data_section: (data: any) => data,
+            sequence_section: (list: any) => ({ typecode: 0x76, content: list }),
+            sequence_sections: (lists: any) => ({ typecode: 0x76, content: lists, multiple: true }),
+            decode: (data: any) => data,
+            encode: (msg: any) => msg
+        },
+        types: {
+            wrap_long: (v: any) => v,
+            wrap_int: (v: any) => v,
+            wrap_uint: (v: any) => v,
+            wrap_array: (v: any) => v,
+            wrap_timestamp: (v: any) => v,
+            wrap_described: (v: any, d: any) => v,
+            wrap_binary: (v: any) => v
+        }
+    };
+
+    return {
+        ...mockRhea,
+        default: mockRhea,
+        message: mockRhea.message,
+        types: mockRhea.types
+    };
+});
+
+
+describe('Resumable Search', () => {
+    const ns = 'demo-ns';
+
+    beforeEach(() => {
+        (globalThis as any).__BUSSIN_SIMULATOR_ACTIVE__ = true;
+        GlobalMockBroker.reset();
+        GlobalMockBroker.createQueue('orders');
+        for (let i = 1; i <= 150; i++) {
+            GlobalMockBroker.pushMessage('orders', {
+                body: new TextEncoder().encode(JSON.stringify({ id: i })),
+                message_id: `order-${i}`,
+                subject: i % 10 === 0 ? 'refund' : 'order'
+            });
+        }
+    });
+
+    it('should continue a stopped search from its serialized cursor', async () => {
+        const controller = await ServiceBusAPI.searchQueueMessages(
+            ns, 'orders', 'token', false, '', '', '', 1000, 1000, null, "sys.label = 'refund'",
+            { onCheckpoint: () => controller.stop() }
+        );
+        const first = await controller.promise;
+
+        expect(first.completed).toBe(false);
+        expect(first.scannedCount).toBe(100);
+        expect(first.matchingSequenceNumbers).toEqual([10, 20, 30, 40, 50, 60, 70, 80, 90, 100]);
+        expect(first.cursor.nextSequenceNumber).toBe(101);
+        expect(first.cursor).toEqual(controller.getCursor());
+
+        // Survives a reload as plain JSON
+        const cursor = JSON.parse(JSON.stringify(first.cursor));
+        const resumed = await ServiceBusAPI.resumeSearch(cursor, 'token');
+        const result = await resumed.promise;
+
+        expect(result.completed).toBe(true);
+        expect(result.scannedCount).toBe(150);
+        expect(result.matchCount).toBe(15);
+        expect(result.matchingSequenceNumbers).toEqual([10, 20, 30, 40, 50, 60, 70, 80, 90, 100, 110, 120, 130, 140, 150]);
+        expect(result.cursor.query).toBe("sys.label = 'refund'");
+    });
+
+    it('should keep only the new matches when resuming with messages', async () => {
+        const controller = await ServiceBusAPI.searchQueueMessages(
+            ns, 'orders', 'token', false, '', '', 'refund', 1000, 5, null, null,
+            { includeMessages: true, fields: ['messageId'] }
+        );
+        const first = await controller.promise;
+        expect(first.completed).toBe(false);
+        expect(first.matchCount).toBe(5);
+        expect(first.cursor.nextSequenceNumber).toBe(51);
+
+        const resumed = await ServiceBusAPI.resumeSearch({ ...first.cursor, maxMatches: 1000 }, 'token');
+        const result = await resumed.promise;
+
+        expect(result.matchCount).toBe(15);
+        expect(result.messages).toEqual([60, 70, 80, 90, 100, 110, 120, 130, 140, 150].map(seq => ({ sequenceNumber: seq, messageId: `order-${seq}` })));
+    });
+
+    it('should reject an unknown cursor', async () => {
+        await expect(ServiceBusAPI.resumeSearch({ version: 99 } as any, 'token'))
+            .rejects.toThrow('Failed to resume search: invalid or unsupported cursor');
+    });
+});
@@ -0,0 +1,127 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { GlobalMockBroker } from '../src/mockBroker.js';
+import * as ServiceBusAPI from '../serviceBusApi.js';
+import { ManagementClient } from '../src/managementClient.js';
+
+(globalThis as any).WebSocket = class { constructor() {} };
+
+// Mock the 'rhea' library to redirect to our MockBroker
+vi.mock('rhea', () => {
+    const mockRhea = {
+        connect: (opts: any) => GlobalMockBroker.connect(opts),
+        websocket_connect: (ws: any) => {
+            return (url: string, protocols: string[]) => {
+                return { url, protocols }; // dummy
+            };
+        },
+        message: {
+            data_section: (data: any) => data,
+            sequence_section: (list: any) => ({ typecode: 0x76, content: list }),
+            sequence_sections: (lists: any) => ({ typecode: 0x76, content: lists, multiple: true }),
+            decode: (data: any) => data,
+            encode: (msg: any) => msg
+        },
+        types: {
+            wrap_long: (v: any) => v,
+            wrap_int: (v: any) => v,
+            wrap_uint: (v: any) => v,
+            wrap_array: (v: any) => v,
+            wrap_timestamp: (v: any) => v,
+            wrap_described: (v: any, d: any) => v,
+            wrap_binary: (v: any) => v
+        }
+    };
+
+    return {
+        ...mockRhea,
+        default: mockRhea,
+        message: mockRhea.message,
+        types: mockRhea.types
+    };
+});
+
+
+describe('Search Message Streaming', () => {
+    const ns = 'demo-ns';
+
+    beforeEach(() => {
+        (globalThis as any).__BUSSIN_SIMULATOR_ACTIVE__ = true;
+        GlobalMockBroker.reset();
+        GlobalMockBroker.createQueue('orders');
+        vi.restoreAllMocks();
+        for (let i = 1; i <= 4; i++) {
+            GlobalMockBroker.pushMessage('orders', {
+                body: new TextEncoder().encode(JSON.stringify({ id: i, note: 'x'.repeat(200) })),
+                message_id: `order-${i}`,
+                subject: i % 2 === 0 ? 'even' : 'odd',
+                application_properties: { index: i }
+            });
+        }
+    });
+
+    it('should report only sequence numbers by default', async () => {
+        const controller = await ServiceBusAPI.searchQueueMessages(ns, 'orders', 'token', false, '', '', 'even', 100, 10);
+        const result = await controller.promise;
+
+        expect(result.matchingSequenceNumbers).toEqual([2, 4]);
+        expect(result.messages).toEqual([]);
+        expect(result.messagesOmitted).toBe(0);
+    });
+
+    it('should stream projected messages with the progress callback', async () => {
+        const streamed: any[] = [];
+        const controller = await ServiceBusAPI.searchQueueMessages(
+            ns, 'orders', 'token', false, '', '', 'even', 100, 10,
+            (_scanned, _matches, _newMatches, newMessages) => streamed.push(...newMessages),
+            null,
+            { includeMessages: true, fields: ['messageId', 'applicationProperties'] }
+        );
+        const result = await controller.promise;
+
+        expect(result.messages).toEqual([
+            { sequenceNumber: 2, messageId: 'order-2', applicationProperties: { index: 2 } },
+            { sequenceNumber: 4, messageId: 'order-4', applicationProperties: { index: 4 } }
+        ]);
+        expect(streamed).toEqual(result.messages);
+    });
+
+    it('should keep full messages within the memory budget', async () => {
+        const controller = await ServiceBusAPI.searchQueueMessages(
+            ns, 'orders', 'token', false, '', '', '', 100, 10, null, null,
+            { includeMessages: true, maxMessageBytes: 3000 }
+        );
+        const result = await controller.promise;
+
+        expect(result.matchingSequenceNumbers).toEqual([1, 2, 3, 4]);
+        expect(result.messages.length).toBeGreaterThan(0);
+        expect(result.messages.length).toBeLessThan(4);
+        expect(result.messages[0].body).toContain('"id":1');
+        // Omitted messages are the last matches
+        expect(result.messagesOmitted).toBe(4 - result.messages.length);
+        expect(result.messages.map(m => m.sequenceNumber)).toEqual([1, 2, 3, 4].slice(0, result.messages.length));
+    });
+
+    it('should stop at the limit in the middle of a batch', async () => {
+        const controller = await ServiceBusAPI.searchQueueMessages(ns, 'orders', 'token', false, '', '', '', 3, 10);
+        const result = await controller.promise;
+
+        expect(result.scannedCount).toBe(3);
+        expect(result.matchingSequenceNumbers).toEqual([1, 2, 3]);
+        expect(result.completed).toBe(false);
+        expect(result.cursor.nextSequenceNumber).toBe(4);
+
+        const byMatches = await (await ServiceBusAPI.searchQueueMessages(ns, 'orders', 'token', false, '', '', 'even', 100, 1)).promise;
+        expect(byMatches.matchingSequenceNumbers).toEqual([2]);
+        expect(byMatches.scannedCount).toBe(2);
+    });
+
+    it('should fail the search when a batch cannot be peeked', async () => {
+        // Every retry fails too - the batch is not skipped, the search ends
+        const peek = vi.spyOn(ManagementClient.prototype, 'peekMessages').mockRejectedValue(new Error('link detached'));
+
+        const controller = await ServiceBusAPI.searchQueueMessages(ns, 'orders', 'token', false, '', '', '', 100, 10);
+
+        await expect(controller.promise).rejects.toThrow('Search failed: link detached');
+        expect(peek).toHaveBeenCalledTimes(3);
+    });
+});
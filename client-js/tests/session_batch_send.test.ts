@@ -0,0 +1,121 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { GlobalMockBroker } from '../src/mockBroker.js';
+import * as ServiceBusAPI from '../serviceBusApi.js';
+
+(globalThis as any).WebSocket = class { constructor() {} };
+
+// Mock the 'rhea' library to redirect to our MockBroker
+vi.mock('rhea', () => {
+    const mockRhea = {
+        connect: (opts: any) => GlobalMockBroker.connect(opts),
+        websocket_connect: (ws: any) => {
+            return (url: string, protocols: string[]) => {
+                return { url, protocols }; // dummy
+            };
+        },
+        message: {
+            data_section: (data: any) => data,
+            decode: (data: any) => data,
+            encode: (msg: any) => msg
+        },
+        types: {
+            wrap_long: (v: any) => v,
+            wrap_int: (v: any) => v,
+            wrap_uint: (v: any) => v,
+            wrap_array: (v: any) => v,
+            wrap_timestamp: (v: any) => v,
+            wrap_described: (v: any, d: any) => v,
+            wrap_binary: (v: any) => v
+        }
+    };
+
+    return {
+        ...mockRhea,
+        default: mockRhea,
+        message: mockRhea.message,
+        types: mockRhea.types
+    };
+});
+
+const sessionOf = (m: any) => m.group_id;
+const textOf = (m: any) => new TextDecoder().decode(m.body);
+
+describe('Session-Aware Batch Send', () => {
+    const ns = 'demo-ns';
+    const queue = 'session-batch-queue';
+
+    beforeEach(() => {
+        (globalThis as any).__BUSSIN_SIMULATOR_ACTIVE__ = true;
+        GlobalMockBroker.reset();
+        GlobalMockBroker.createQueue(queue);
+    });
+
+    it('should send per-message session IDs and keep order within each session', async () => {
+        const result = await ServiceBusAPI.sendQueueSessionMessageBatch(ns, queue, 'token', [
+            { body: 'a-1', sessionId: 'A' },
+            { body: 'b-1', sessionId: 'B' },
+            { body: 'a-2', sessionId: 'A' },
+            { body: 'b-2', properties: { session_id: 'B' } },
+            { body: 'a-3', sessionId: 'A' }
+        ]);
+
+        expect(result.successCount).toBe(5);
+        expect(result.failureCount).toBe(0);
+        expect(result.sessions).toEqual([
+            { sessionId: 'A', successCount: 3, failureCount: 0 },
+            { sessionId: 'B', successCount: 2, failureCount: 0 }
+        ]);
+
+        const stored = GlobalMockBroker.getMessages(queue);
+        expect(stored.filter(m => sessionOf(m) === 'A').map(textOf)).toEqual(['a-1', 'a-2', 'a-3']);
+        expect(stored.filter(m => sessionOf(m) === 'B').map(textOf)).toEqual(['b-1', 'b-2']);
+    });
+
+    it('should derive session IDs from a JSON path', async () => {
+        const result = await ServiceBusAPI.sendQueueSessionMessageBatch(ns, queue, 'token', [
+            { body: { order: { customer: 'c-1' } } },
+            { body: '{"order":{"customer":"c-2"}}' },
+            { body: { order: {} }, properties: { message_id: 'no-customer' } }
+        ], { type: 'jsonPath', path: '$.order.customer' });
+
+        expect(result.successCount).toBe(2);
+        expect(result.failureCount).toBe(1);
+        expect(result.errors[0].messageId).toBe('no-customer');
+        expect(result.sessions.map(s => s.sessionId)).toEqual(['c-1', 'c-2']);
+        expect(GlobalMockBroker.getMessages(queue).map(sessionOf)).toEqual(['c-1', 'c-2']);
+    });
+
+    it('should spread messages round-robin over N sessions', async () => {
+        const messages = Array.from({ length: 5 }, (_, i) => ({ body: `m-${i}` }));
+        const result = await ServiceBusAPI.sendQueueSessionMessageBatch(ns, queue, 'token', messages,
+            { type: 'roundRobin', sessionCount: 2, prefix: 'worker-' });
+
+        expect(result.sessions).toEqual([
+            { sessionId: 'worker-0', successCount: 3, failureCount: 0 },
+            { sessionId: 'worker-1', successCount: 2, failureCount: 0 }
+        ]);
+        const stored = GlobalMockBroker.getMessages(queue);
+        expect(stored.filter(m => sessionOf(m) === 'worker-0').map(textOf)).toEqual(['m-0', 'm-2', 'm-4']);
+    });
+
+    it('should fail messages without a session ID when no rule is given', async () => {
+        const result = await ServiceBusAPI.sendQueueSessionMessageBatch(ns, queue, 'token', [{ body: 'orphan' }]);
+
+        expect(result.successCount).toBe(0);
+        expect(result.failureCount).toBe(1);
+        expect(result.sessions).toEqual([]);
+        expect(GlobalMockBroker.getMessages(queue).length).toBe(0);
+    });
+
+    it('should fail only the message whose body cannot be prepared', async () => {
+        const result = await ServiceBusAPI.sendQueueSessionMessageBatch(ns, queue, 'token', [
+            { body: 'fine', sessionId: 'a' },
+            { body: null, bodyBase64: '@@not base64@@', sessionId: 'a', properties: { message_id: 'broken' } }
+        ]);
+
+        expect(result.successCount).toBe(1);
+        expect(result.failureCount).toBe(1);
+        expect(result.errors.map(e => e.messageId)).toEqual(['broken']);
+        expect(GlobalMockBroker.getMessages(queue).length).toBe(1);
+    });
+});
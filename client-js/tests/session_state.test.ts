@@ -0,0 +1,102 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { GlobalMockBroker } from '../src/mockBroker.js';
+import * as ServiceBusAPI from '../serviceBusApi.js';
+
+(globalThis as any).WebSocket = class { constructor() {} };
+
+// Mock the 'rhea' library to redirect to our MockBroker
+vi.mock('rhea', () => {
+    const mockRhea = {
+        connect: (opts: any) => GlobalMockBroker.connect(opts),
+        websocket_connect: (ws: any) => {
+            return (url: string, protocols: string[]) => {
+                return { url, protocols }; // dummy
+            };
+        },
+        message: {
+            data_section: (data: any) => data,
+            decode: (data: any) => data,
+            encode: (msg: any) => msg
+        },
+        types: {
+            wrap_long: (v: any) => v,
+            wrap_int: (v: any) => v,
+            wrap_uint: (v: any) => v,
+            wrap_array: (v: any) => v,
+            wrap_timestamp: (v: any) => v,
+            wrap_described: (v: any, d: any) => v,
+            wrap_binary: (v: any) => v
+        }
+    };
+
+    return {
+        ...mockRhea,
+        default: mockRhea,
+        message: mockRhea.message,
+        types: mockRhea.types
+    };
+});
+
+describe('Session State', () => {
+    const ns = 'demo-ns';
+    const queue = 'session-queue';
+
+    beforeEach(() => {
+        (globalThis as any).__BUSSIN_SIMULATOR_ACTIVE__ = true;
+        GlobalMockBroker.reset();
+        GlobalMockBroker.createQueue(queue);
+    });
+
+    it('should report a session without state', async () => {
+        const state = await ServiceBusAPI.getQueueSessionState(ns, queue, 'token', 'order-1');
+
+        expect(state.hasState).toBe(false);
+        expect(state.text).toBeNull();
+        expect(state.json).toBeUndefined();
+    });
+
+    it('should round-trip text state', async () => {
+        await ServiceBusAPI.setQueueSessionState(ns, queue, 'token', 'order-1', 'step=shipped ✓');
+        const state = await ServiceBusAPI.getQueueSessionState(ns, queue, 'token', 'order-1');
+
+        expect(state.hasState).toBe(true);
+        expect(state.text).toBe('step=shipped ✓');
+        expect(state.json).toBeUndefined();
+        expect(atob(state.base64)).toBe(String.fromCharCode(...new TextEncoder().encode('step=shipped ✓')));
+    });
+
+    it('should round-trip JSON state from objects and strings', async () => {
+        await ServiceBusAPI.setQueueSessionState(ns, queue, 'token', 'order-1', { step: 'paid', retries: 2 }, 'json');
+        let state = await ServiceBusAPI.getQueueSessionState(ns, queue, 'token', 'order-1');
+        expect(state.json).toEqual({ step: 'paid', retries: 2 });
+        expect(state.text).toBe('{"step":"paid","retries":2}');
+
+        await ServiceBusAPI.setQueueSessionState(ns, queue, 'token', 'order-1', '[1, 2]', 'json');
+        state = await ServiceBusAPI.getQueueSessionState(ns, queue, 'token', 'order-1');
+        expect(state.json).toEqual([1, 2]);
+
+        await expect(ServiceBusAPI.setQueueSessionState(ns, queue, 'token', 'order-1', '{broken', 'json'))
+            .rejects.toThrow(/Set session state failed/);
+    });
+
+    it('should round-trip binary state as base64', async () => {
+        const base64 = btoa(String.fromCharCode(0xff, 0x00, 0xfe, 0x10));
+        const written = await ServiceBusAPI.setQueueSessionState(ns, queue, 'token', 'order-1', base64, 'base64');
+        expect(written.size).toBe(4);
+
+        const state = await ServiceBusAPI.getQueueSessionState(ns, queue, 'token', 'order-1');
+        expect(state.base64).toBe(base64);
+        expect(state.size).toBe(4);
+        expect(state.text).toBeNull();
+    });
+
+    it('should clear state and keep subscription sessions separate', async () => {
+        await ServiceBusAPI.setQueueSessionState(ns, queue, 'token', 'order-1', 'queued');
+        await ServiceBusAPI.setSubscriptionSessionState(ns, 'orders', 'billing', 'token', 'order-1', 'billed');
+
+        await ServiceBusAPI.setQueueSessionState(ns, queue, 'token', 'order-1', null);
+
+        expect((await ServiceBusAPI.getQueueSessionState(ns, queue, 'token', 'order-1')).hasState).toBe(false);
+        expect((await ServiceBusAPI.getSubscriptionSessionState(ns, 'orders', 'billing', 'token', 'order-1')).text).toBe('billed');
+    });
+});
@@ -0,0 +1,107 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { GlobalMockBroker } from '../src/mockBroker.js';
+import * as ServiceBusAPI from '../serviceBusApi.js';
+
+(globalThis as any).WebSocket = class { constructor() {} };
+
+// Mock the 'rhea' library to redirect to our MockBroker
+vi.mock('rhea', () => {
+    const mockRhea = {
+        connect: (opts: any) => GlobalMockBroker.connect(opts),
+        websocket_connect: (ws: any) => {
+            return (url: string, protocols: string[]) => {
+                return { url, protocols }; // dummy
+            };
+        },
+        message: {
+            data_section: (data: any) => data,
+            sequence_section: (list: any) => ({ typecode: 0x76, content: list }),
+            sequence_sections: (lists: any) => ({ typecode: 0x76, content: lists, multiple: true }),
+            decode: (data: any) => data,
+            encode: (msg: any) => msg
+        },
+        types: {
+            wrap_long: (v: any) => v,
+            wrap_int: (v: any) => v,
+            wrap_uint: (v: any) => v,
+            wrap_array: (v: any) => v,
+            wrap_timestamp: (v: any) => v,
+            wrap_described: (v: any, d: any) => v,
+            wrap_binary: (v: any) => v
+        }
+    };
+
+    return {
+        ...mockRhea,
+        default: mockRhea,
+        message: mockRhea.message,
+        types: mockRhea.types
+    };
+});
+
+
+describe('Peek By Time Range', () => {
+    const ns = 'demo-ns';
+    const base = Date.UTC(2024, 0, 1);
+    const minute = 60 * 1000;
+    const push = (path: string, id: number, minutes: number) => GlobalMockBroker.pushMessage(path, {
+        body: new TextEncoder().encode(`message ${id}`),
+        message_id: `msg-${id}`,
+        message_annotations: { 'x-opt-enqueued-time': new Date(base + minutes * minute) }
+    });
+    const collect = async (iterable: AsyncIterable<any>) => {
+        const messages: any[] = [];
+        for await (const message of iterable) messages.push(message);
+        return messages;
+    };
+
+    beforeEach(() => {
+        (globalThis as any).__BUSSIN_SIMULATOR_ACTIVE__ = true;
+        GlobalMockBroker.reset();
+        GlobalMockBroker.createQueue('orders');
+        vi.restoreAllMocks();
+    });
+
+    it('should find the window by probing instead of scanning', async () => {
+        for (let i = 1; i <= 2000; i++) push('orders', i, i);
+        const { ManagementClient } = await import('../src/managementClient.js');
+        const peek = vi.spyOn(ManagementClient.prototype, 'peekMessages');
+
+        const messages = await collect(ServiceBusAPI.peekByTimeRange(
+            ns, 'orders', 'token', new Date(base + 1500 * minute), new Date(base + 1510 * minute)
+        ));
+
+        expect(messages.map(m => m.messageId)).toEqual(Array.from({ length: 11 }, (_, i) => `msg-${1500 + i}`));
+        // ~11 galloping + ~11 bisecting probes, then one page for the window
+        expect(peek.mock.calls.length).toBeLessThan(30);
+        expect(peek.mock.calls.every(([, count]) => count === 1 || count === 100)).toBe(true);
+    });
+
+    it('should handle gaps, windows before the first and after the last message', async () => {
+        for (let i = 1; i <= 20; i++) push('orders', i, i * 10);
+        GlobalMockBroker.getMessages('orders').splice(5, 8); // sequence numbers 6-13 are gone
+
+        const inGap = await collect(ServiceBusAPI.peekByTimeRange(ns, 'orders', 'token', base + 65 * minute, base + 145 * minute));
+        const early = await collect(ServiceBusAPI.peekByTimeRange(ns, 'orders', 'token', base, base + 25 * minute));
+        const late = await collect(ServiceBusAPI.peekByTimeRange(ns, 'orders', 'token', base + 500 * minute, base + 600 * minute));
+
+        expect(inGap.map(m => m.sequenceNumber)).toEqual([14]);
+        expect(early.map(m => m.sequenceNumber)).toEqual([1, 2]);
+        expect(late).toEqual([]);
+    });
+
+    it('should peek a DLQ window', async () => {
+        for (let i = 1; i <= 5; i++) push('orders/$DeadLetterQueue', i, i);
+
+        const messages = await collect(ServiceBusAPI.peekByTimeRange(
+            ns, 'orders', 'token', new Date(base + 2 * minute).toISOString(), new Date(base + 3 * minute).toISOString(), { fromDeadLetter: true }
+        ));
+
+        expect(messages.map(m => m.messageId)).toEqual(['msg-2', 'msg-3']);
+    });
+
+    it('should reject an inverted window', async () => {
+        await expect(collect(ServiceBusAPI.peekByTimeRange(ns, 'orders', 'token', base + minute, base)))
+            .rejects.toThrow('Peek by time range failed');
+    });
+});
@@ -0,0 +1,92 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { GlobalMockBroker } from '../src/mockBroker.js';
+import { ServiceBusConnection } from '../src/connection.js';
+import { getTokenExpiry } from '../src/messageParser.js';
+
+(globalThis as any).WebSocket = class { constructor() {} };
+
+const base64Url = (value: object) => btoa(JSON.stringify(value)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+const jwtExpiringAt = (expSeconds: number) => `${base64Url({ alg: 'none' })}.${base64Url({ aud: 'https://servicebus.azure.net', exp: expSeconds })}.sig`;
+// Drive the mock broker's timers while a call is pending (tests with fake timers)
+const settle = async <T>(pending: Promise<T>): Promise<T> => {
+    await vi.advanceTimersByTimeAsync(50);
+    return await pending;
+};
+const cbsTokens = () => GlobalMockBroker.auditLog.filter(a => a === 'SEND (to: $cbs)').length;
+
+describe('CBS Token Refresh', () => {
+    beforeEach(() => {
+        (globalThis as any).__BUSSIN_SIMULATOR_ACTIVE__ = true;
+        GlobalMockBroker.reset();
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('should read expiry from JWT exp claim and SAS se field', () => {
+        const exp = Math.floor(Date.now() / 1000) + 3600;
+
+        expect(getTokenExpiry(jwtExpiringAt(exp))?.getTime()).toBe(exp * 1000);
+        expect(getTokenExpiry(`SharedAccessSignature sr=sb%3A%2F%2Fns&sig=abc&se=${exp}&skn=RootManageSharedAccessKey`)?.getTime()).toBe(exp * 1000);
+        expect(getTokenExpiry('opaque-token')).toBeNull();
+    });
+
+    it('should re-put a fresh token for every authorized entity before expiry', async () => {
+        const farFuture = Math.floor(Date.now() / 1000) + 24 * 3600;
+        const freshToken = `SharedAccessSignature sr=sb%3A%2F%2Fns&sig=abc&se=${farFuture}&skn=key`;
+        const provider = vi.fn(async () => freshToken);
+
+        // Expires just past the 5 minute refresh margin - the refresh waits for the 30s minimum interval
+        vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout'] });
+        const connection = new ServiceBusConnection('refresh-ns', jwtExpiringAt(Math.floor(Date.now() / 1000) + 5 * 60 + 2), provider);
+        await settle(connection.connect());
+        await settle(connection.authenticateCBS('queue-a'));
+        await settle(connection.authenticateCBS('queue-b'));
+
+        await vi.advanceTimersByTimeAsync(29 * 1000);
+        expect(provider).not.toHaveBeenCalled();
+
+        await vi.advanceTimersByTimeAsync(2 * 1000);
+        expect(cbsTokens()).toBe(4);
+
+        expect(provider).toHaveBeenCalledTimes(1);
+        expect(connection.token).toBe(freshToken);
+        connection.close();
+    });
+
+    it('should back off instead of re-putting when the provider returns no newer token', async () => {
+        // A static SAS already inside the refresh margin
+        const staticToken = `SharedAccessSignature sr=sb%3A%2F%2Fns&sig=abc&se=${Math.floor(Date.now() / 1000) + 60}&skn=key`;
+        const provider = vi.fn(async () => staticToken);
+        vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout'] });
+        const connection = new ServiceBusConnection('refresh-ns', staticToken, provider);
+        await settle(connection.connect());
+        await settle(connection.authenticateCBS('queue-a'));
+
+        await vi.advanceTimersByTimeAsync(30 * 1000);
+        expect(provider).toHaveBeenCalledTimes(1);
+
+        // Next ask after 60s, then 120s
+        await vi.advanceTimersByTimeAsync(59 * 1000);
+        expect(provider).toHaveBeenCalledTimes(1);
+        await vi.advanceTimersByTimeAsync(1000);
+        expect(provider).toHaveBeenCalledTimes(2);
+        await vi.advanceTimersByTimeAsync(120 * 1000);
+        expect(provider).toHaveBeenCalledTimes(3);
+
+        expect(cbsTokens()).toBe(1);
+        connection.close();
+    });
+
+    it('should not schedule a refresh without a token provider', async () => {
+        const connection = new ServiceBusConnection('refresh-ns', jwtExpiringAt(Math.floor(Date.now() / 1000) + 60));
+        await connection.connect();
+        await connection.authenticateCBS('queue-a');
+
+        await new Promise(r => setTimeout(r, 50));
+
+        expect(cbsTokens()).toBe(1);
+        connection.close();
+    });
+});
@@ -0,0 +1,172 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { GlobalMockBroker } from '../src/mockBroker.js';
+import * as ServiceBusAPI from '../serviceBusApi.js';
+import { ManagementClient } from '../src/managementClient.js';
+import { TransactionCoordinator } from '../src/transaction.js';
+
+(globalThis as any).WebSocket = class { constructor() {} };
+
+// Mock the 'rhea' library to redirect to our MockBroker
+vi.mock('rhea', () => {
+    const mockRhea = {
+        connect: (opts: any) => GlobalMockBroker.connect(opts),
+        websocket_connect: (ws: any) => {
+            return (url: string, protocols: string[]) => {
+                return { url, protocols }; // dummy
+            };
+        },
+        message: {
+            data_section: (data: any) => data,
+            decode: (data: any) => data,
+            encode: (msg: any) => msg
+        },
+        types: {
+            wrap: (v: any) => v,
+            wrap_long: (v: any) => v,
+            wrap_int: (v: any) => v,
+            wrap_uint: (v: any) => v,
+            wrap_array: (v: any) => v,
+            wrap_timestamp: (v: any) => v,
+            wrap_described: (v: any, d: any) => v,
+            wrap_binary: (v: any) => v,
+            wrap_boolean: (v: any) => v,
+            wrap_symbol: (v: any) => v
+        }
+    };
+
+    return {
+        ...mockRhea,
+        default: mockRhea,
+        message: mockRhea.message,
+        types: mockRhea.types
+    };
+});
+
+describe('Transactions', () => {
+    const ns = 'txn-ns';
+    const dlq = 'orders/$DeadLetterQueue';
+
+    beforeEach(() => {
+        (globalThis as any).__BUSSIN_SIMULATOR_ACTIVE__ = true;
+        GlobalMockBroker.reset();
+        GlobalMockBroker.createQueue('orders');
+        GlobalMockBroker.createQueue('orders-retry');
+        for (let i = 1; i <= 2; i++) {
+            GlobalMockBroker.pushMessage(dlq, {
+                body: new TextEncoder().encode(`order-${i}`),
+                message_id: `order-${i}`
+            });
+        }
+        vi.restoreAllMocks();
+    });
+
+    it('should apply a send and a DLQ completion only on commit', async () => {
+        const [locked] = await ServiceBusAPI.receiveDeferredQueueMessages(ns, 'orders', 'token', [1], true);
+        const transaction = await ServiceBusAPI.beginTransaction(ns, 'token');
+
+        await ServiceBusAPI.resubmitQueueMessages(ns, 'orders-retry', 'token', [locked], {}, transaction);
+        const completed = await ServiceBusAPI.complete(locked.lockToken, transaction);
+        expect(completed.successCount).toBe(1);
+
+        // Nothing is visible before the commit
+        expect(GlobalMockBroker.getMessages('orders-retry').length).toBe(0);
+        expect(GlobalMockBroker.getMessages(dlq).length).toBe(2);
+
+        await transaction.commit();
+
+        expect(GlobalMockBroker.getMessages('orders-retry').map(m => m.message_id)).toEqual(['order-1']);
+        expect(GlobalMockBroker.getMessages(dlq).map(m => m.message_id)).toEqual(['order-2']);
+        expect(transaction.isActive()).toBe(false);
+        await expect(transaction.commit()).rejects.toThrow('Transaction already committed');
+    });
+
+    it('should drop everything enlisted on rollback', async () => {
+        const [locked] = await ServiceBusAPI.receiveDeferredQueueMessages(ns, 'orders', 'token', [2], true);
+        const transaction = await ServiceBusAPI.beginTransaction(ns, 'token');
+
+        await ServiceBusAPI.sendQueueMessage(ns, 'orders-retry', 'token', 'copy', {}, transaction);
+        await ServiceBusAPI.deadLetter(locked.lockToken, { deadLetterReason: 'Retry later' }, transaction);
+        await transaction.rollback();
+
+        expect(GlobalMockBroker.getMessages('orders-retry').length).toBe(0);
+        expect(GlobalMockBroker.getMessages(dlq).map(m => m.message_id)).toEqual(['order-1', 'order-2']);
+        expect(GlobalMockBroker.auditLog).toContain('TXN_ROLLBACK x2');
+    });
+
+    it('should refuse a transaction from another connection', async () => {
+        const transaction = await ServiceBusAPI.beginTransaction(ns, 'token');
+
+        await expect(ServiceBusAPI.sendQueueMessage('other-ns', 'orders-retry', 'token', 'copy', {}, transaction))
+            .rejects.toThrow('Transaction belongs to a different connection');
+        await transaction.rollback();
+    });
+
+    it('should move transactionally and roll back a failed completion', async () => {
+        vi.spyOn(ManagementClient.prototype, 'updateDisposition').mockRejectedValueOnce(new Error('LockLost'));
+
+        const result = await ServiceBusAPI.moveMessagesBySequence(
+            { namespace: ns, token: 'token', queueName: 'orders', fromDeadLetter: true },
+            { namespace: ns, token: 'token', queueName: 'orders-retry' },
+            [1, 2],
+            { transactional: true }
+        );
+
+        expect(result.results.map(r => r.status)).toEqual(['rolled-back', 'moved']);
+        expect(result.errors[0]).toEqual({ messageId: 'order-1', error: 'LockLost' });
+
+        // The rolled-back copy never reached the destination
+        expect(GlobalMockBroker.getMessages('orders-retry').map(m => m.message_id)).toEqual(['order-2']);
+        expect(GlobalMockBroker.getMessages(dlq).map(m => m.message_id)).toEqual(['order-1']);
+    });
+
+    it('should send a transactional move via the source entity', async () => {
+        await ServiceBusAPI.moveMessagesBySequence(
+            { namespace: ns, token: 'token', queueName: 'orders', fromDeadLetter: true },
+            { namespace: ns, token: 'token', queueName: 'orders-retry' },
+            [1],
+            { transactional: true }
+        );
+
+        expect(GlobalMockBroker.auditLog).toContain(`SEND (to: orders-retry, via: ${dlq})`);
+        expect(GlobalMockBroker.getMessages('orders-retry').map(m => m.message_id)).toEqual(['order-1']);
+    });
+
+    it('should report a timed-out commit as indeterminate', async () => {
+        vi.spyOn(TransactionCoordinator.prototype, 'discharge').mockRejectedValueOnce(new Error('Transaction request timeout'));
+
+        const result = await ServiceBusAPI.moveMessagesBySequence(
+            { namespace: ns, token: 'token', queueName: 'orders', fromDeadLetter: true },
+            { namespace: ns, token: 'token', queueName: 'orders-retry' },
+            [1, 2],
+            { transactional: true }
+        );
+
+        expect(result.results.map(r => r.status)).toEqual(['indeterminate', 'moved']);
+        expect(result.errors[0].error).toBe('Transaction commit outcome unknown: Transaction request timeout');
+    });
+
+    it('should tell a refused commit from one whose outcome is unknown', async () => {
+        const discharge = vi.spyOn(TransactionCoordinator.prototype, 'discharge');
+
+        discharge.mockRejectedValueOnce(new Error('amqp:transaction:unknown-id: Unknown transaction'));
+        const refused = await ServiceBusAPI.beginTransaction(ns, 'token');
+        await expect(refused.commit()).rejects.toThrow('Transaction commit failed');
+        expect(refused.isIndeterminate()).toBe(false);
+        await expect(refused.commit()).rejects.toThrow('Transaction already rolled back');
+
+        discharge.mockRejectedValueOnce(new Error('Transaction request timeout'));
+        const timedOut = await ServiceBusAPI.beginTransaction(ns, 'token');
+        await expect(timedOut.commit()).rejects.toThrow('Transaction commit outcome unknown');
+        expect(timedOut.isIndeterminate()).toBe(true);
+        expect(timedOut.isActive()).toBe(false);
+    });
+
+    it('should reject a transactional move across namespaces', async () => {
+        await expect(ServiceBusAPI.moveMessagesBySequence(
+            { namespace: ns, token: 'token', queueName: 'orders', fromDeadLetter: true },
+            { namespace: 'other-ns', token: 'token', queueName: 'orders-retry' },
+            [1],
+            { transactional: true }
+        )).rejects.toThrow('same namespace');
+    });
+});
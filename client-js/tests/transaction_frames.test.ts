@@ -0,0 +1,99 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import rhea from 'rhea';
+import { Duplex } from 'stream';
+import { Transaction } from '../src/transaction.js';
+
+// No rhea mock here: transfers are encoded by the real rhea and read back from the bytes on the wire
+
+const TRANSFER_DESCRIPTOR = 0x14;
+const TRANSACTIONAL_STATE_DESCRIPTOR = 0x34;
+
+// In-memory socket pair - what one end writes, the other reads; written bytes are kept per end
+const socketPair = () => {
+    const written: Buffer[][] = [[], []];
+    const ends: Duplex[] = [];
+    for (let i = 0; i < 2; i++) {
+        ends.push(new Duplex({
+            read() { },
+            write(chunk, _encoding, callback) {
+                // Deliver on a later turn, as a real socket would - rhea does not expect re-entrant reads
+                const copy = Buffer.from(chunk);
+                written[i].push(copy);
+                setImmediate(() => ends[1 - i].push(copy));
+                callback();
+            }
+        }));
+    }
+    return { client: ends[0], server: ends[1], clientBytes: () => Buffer.concat(written[0]) };
+};
+
+// Decode the performatives of the AMQP frames in a byte stream (after the 8-byte protocol header)
+const readPerformatives = (bytes: Buffer): any[] => {
+    const performatives: any[] = [];
+    for (let offset = 8; offset + 8 <= bytes.length;) {
+        const size = bytes.readUInt32BE(offset);
+        const body = bytes.subarray(offset + bytes[offset + 4] * 4, offset + size);
+        if (body.length > 0) {
+            performatives.push(new (rhea.types as any).Reader(body).read());
+        }
+        offset += size;
+    }
+    return performatives;
+};
+
+describe('Transactional transfer frames', () => {
+    const cleanup: Array<() => void> = [];
+
+    afterEach(() => {
+        cleanup.splice(0).reverse().forEach(close => close());
+    });
+
+    // Open a sender to a real rhea peer that accepts whatever it receives
+    const connectToPeer = async () => {
+        const sockets = socketPair();
+        const received: any[] = [];
+        const peer = rhea.create_container();
+        peer.on('message', (context: any) => {
+            received.push(context.delivery);
+            context.delivery.accept();
+        });
+        peer.create_connection({ id: 'peer' } as any).accept(sockets.server);
+
+        const connection = rhea.create_container().connect({
+            reconnect: false,
+            connection_details: () => ({
+                connect: (_port: number, _host: string, _options: any, connected: () => void) => {
+                    setTimeout(connected, 0);
+                    return sockets.client;
+                }
+            })
+        } as any);
+        cleanup.push(() => connection.close());
+
+        const sender = connection.open_sender('orders');
+        await new Promise(resolve => sender.once('sendable', resolve));
+        return { sender, received, clientBytes: sockets.clientBytes };
+    };
+
+    it('should encode the transactional state on enlisted transfers only', async () => {
+        const { sender, received, clientBytes } = await connectToPeer();
+        const transaction = new Transaction({} as any, {} as any, new TextEncoder().encode('txn-42'));
+
+        transaction.enlist(sender, sender.send({ body: 'in transaction' }));
+        sender.send({ body: 'outside' });
+        await expect.poll(() => received.length).toBe(2);
+
+        const transfers = readPerformatives(clientBytes())
+            .filter(p => Number(p.descriptor?.value) === TRANSFER_DESCRIPTOR);
+        expect(transfers.length).toBe(2);
+
+        const [enlisted, plain] = transfers.map(t => t.value[7]);
+        expect(Number(enlisted?.descriptor?.value)).toBe(TRANSACTIONAL_STATE_DESCRIPTOR);
+        expect(new TextDecoder().decode(enlisted.value[0].value)).toBe('txn-42');
+        expect(plain === undefined || plain.value === null).toBe(true);
+
+        // The peer decodes the frame too, and sees the txn-id as the delivery state
+        expect(new TextDecoder().decode(received[0].remote_state[0])).toBe('txn-42');
+        expect(received[1].remote_state).toBeUndefined();
+    });
+});
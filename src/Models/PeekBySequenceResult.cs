@@ -0,0 +1,12 @@
+﻿using System.Text.Json.Serialization;
+
+namespace Bussin.Models;
+
+public class PeekBySequenceResult
+{
+    [JsonPropertyName("messages")]
+    public List<ServiceBusMessage> Messages { get; set; } = new();
+    
+    [JsonPropertyName("missingSequenceNumbers")]
+    public List<long> MissingSequenceNumbers { get; set; } = new();
+}
@@ -9,6 +9,18 @@ public class ServiceBusMessage
     
     [JsonPropertyName("body")]
     public string Body { get; set; } = string.Empty;
+
+    [JsonPropertyName("bodyBase64")]
+    public string? BodyBase64 { get; set; }
+
+    [JsonPropertyName("bodyIsUtf8")]
+    public bool BodyIsUtf8 { get; set; } = true;
+
+    [JsonPropertyName("bodyType")]
+    public string BodyType { get; set; } = "data";
+
+    [JsonPropertyName("bodyValue")]
+    public object? BodyValue { get; set; }
     
     [JsonPropertyName("contentType")]
     public string? ContentType { get; set; }
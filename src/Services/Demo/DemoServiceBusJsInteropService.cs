@@ -195,11 +195,13 @@ public class DemoServiceBusJsInteropService(IJSRuntime jsRuntime) : IServiceBusJ
     public async Task<IJSObjectReference> StartSearchSubscriptionAsync(string namespaceName, string topicName, string subscriptionName, string token, DotNetObjectReference<SearchProgressCallback> callbackRef, bool fromDeadLetter, string? bodyFilter, string? messageIdFilter, string? subjectFilter, int maxMessages, int maxMatches = 50)
         => await InvokeSimulatorAsync<IJSObjectReference>("searchSubscriptionMessages", namespaceName, topicName, subscriptionName, token, callbackRef, fromDeadLetter, bodyFilter, messageIdFilter, subjectFilter, maxMessages, maxMatches);
 
-    public async Task<List<ServiceBusMessage>> PeekQueueMessagesBySequenceAsync(string namespaceName, string queueName, string token, long[] sequenceNumbers, bool fromDeadLetter = false)
-        => await InvokeSimulatorAsync<List<ServiceBusMessage>>("peekQueueMessagesBySequence", namespaceName, queueName, token, sequenceNumbers, fromDeadLetter);
+    public async Task<PeekBySequenceResult> PeekQueueMessagesBySequenceAsync(string namespaceName, string queueName, string token, long[] sequenceNumbers, bool fromDeadLetter = false)
+        => ServiceBusJsInteropService.ToPeekBySequenceResult(
+            await InvokeSimulatorAsync<JsonElement>("peekQueueMessagesBySequence", namespaceName, queueName, token, sequenceNumbers, fromDeadLetter));
 
-    public async Task<List<ServiceBusMessage>> PeekSubscriptionMessagesBySequenceAsync(string namespaceName, string topicName, string subscriptionName, string token, long[] sequenceNumbers, bool fromDeadLetter = false)
-        => await InvokeSimulatorAsync<List<ServiceBusMessage>>("peekSubscriptionMessagesBySequence", namespaceName, topicName, subscriptionName, token, sequenceNumbers, fromDeadLetter);
+    public async Task<PeekBySequenceResult> PeekSubscriptionMessagesBySequenceAsync(string namespaceName, string topicName, string subscriptionName, string token, long[] sequenceNumbers, bool fromDeadLetter = false)
+        => ServiceBusJsInteropService.ToPeekBySequenceResult(
+            await InvokeSimulatorAsync<JsonElement>("peekSubscriptionMessagesBySequence", namespaceName, topicName, subscriptionName, token, sequenceNumbers, fromDeadLetter));
     public async Task<List<SubscriptionRule>> EnumerateRulesAsync(string namespaceName, string topicName, string subscriptionName, string token)
     {
         var result = await InvokeSimulatorAsync<JsonElement[]>("enumerateRules", namespaceName, topicName, subscriptionName, token);
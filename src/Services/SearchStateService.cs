@@ -98,9 +98,9 @@ public sealed class SearchStateService : IDisposable
 
                 List<ServiceBusMessage> loadedMessages;
                 if (operation.EntityType == "queue")
-                    loadedMessages = await _jsInterop.PeekQueueMessagesBySequenceAsync(operation.NamespaceName, operation.EntityPath, token, operation.MatchingSequenceNumbers.ToArray(), operation.IsDeadLetter);
+                    loadedMessages = (await _jsInterop.PeekQueueMessagesBySequenceAsync(operation.NamespaceName, operation.EntityPath, token, operation.MatchingSequenceNumbers.ToArray(), operation.IsDeadLetter)).Messages;
                 else
-                    loadedMessages = await _jsInterop.PeekSubscriptionMessagesBySequenceAsync(operation.NamespaceName, operation.TopicName!, operation.SubscriptionName!, token, operation.MatchingSequenceNumbers.ToArray(), operation.IsDeadLetter);
+                    loadedMessages = (await _jsInterop.PeekSubscriptionMessagesBySequenceAsync(operation.NamespaceName, operation.TopicName!, operation.SubscriptionName!, token, operation.MatchingSequenceNumbers.ToArray(), operation.IsDeadLetter)).Messages;
 
                 _messageListState.PeekedMessages = loadedMessages;
                 _messageListState.HasPeeked = true;
@@ -537,17 +537,15 @@ public sealed class ServiceBusJsInteropService(IJSRuntime jsRuntime) : IServiceB
 
     // Peek specific messages by sequence numbers
     
-    public async Task<List<ServiceBusMessage>> PeekQueueMessagesBySequenceAsync(string namespaceName, string queueName, string token, long[] sequenceNumbers, bool fromDeadLetter = false)
+    public async Task<PeekBySequenceResult> PeekQueueMessagesBySequenceAsync(string namespaceName, string queueName, string token, long[] sequenceNumbers, bool fromDeadLetter = false)
     {
         try
         {
-            var result = await jsRuntime.InvokeAsync<JsonElement[]>(
+            var result = await jsRuntime.InvokeAsync<JsonElement>(
                 "ServiceBusAPI.peekQueueMessagesBySequence",
                 namespaceName, queueName, token, sequenceNumbers, fromDeadLetter);
             
-            return result.Select(SafeDeserializeMessage)
-                .OfType<ServiceBusMessage>()
-                .ToList();
+            return ToPeekBySequenceResult(result);
         }
         catch (Exception ex)
         {
@@ -556,17 +554,15 @@ public sealed class ServiceBusJsInteropService(IJSRuntime jsRuntime) : IServiceB
         }
     }
 
-    public async Task<List<ServiceBusMessage>> PeekSubscriptionMessagesBySequenceAsync(string namespaceName, string topicName, string subscriptionName, string token, long[] sequenceNumbers, bool fromDeadLetter = false)
+    public async Task<PeekBySequenceResult> PeekSubscriptionMessagesBySequenceAsync(string namespaceName, string topicName, string subscriptionName, string token, long[] sequenceNumbers, bool fromDeadLetter = false)
     {
         try
         {
-            var result = await jsRuntime.InvokeAsync<JsonElement[]>(
+            var result = await jsRuntime.InvokeAsync<JsonElement>(
                 "ServiceBusAPI.peekSubscriptionMessagesBySequence",
                 namespaceName, topicName, subscriptionName, token, sequenceNumbers, fromDeadLetter);
             
-            return result.Select(SafeDeserializeMessage)
-                .OfType<ServiceBusMessage>()
-                .ToList();
+            return ToPeekBySequenceResult(result);
         }
         catch (Exception ex)
         {
@@ -575,6 +571,24 @@ public sealed class ServiceBusJsInteropService(IJSRuntime jsRuntime) : IServiceB
         }
     }
 
+    /// <summary>
+    /// Convert the { messages, missingSequenceNumbers } result of a peek by sequence number.
+    /// Shared with the demo service, which receives the same shape from the simulator.
+    /// </summary>
+    internal static PeekBySequenceResult ToPeekBySequenceResult(JsonElement result)
+    {
+        return new PeekBySequenceResult
+        {
+            Messages = result.GetProperty("messages").EnumerateArray()
+                .Select(SafeDeserializeMessage)
+                .OfType<ServiceBusMessage>()
+                .ToList(),
+            MissingSequenceNumbers = result.GetProperty("missingSequenceNumbers").EnumerateArray()
+                .Select(seq => seq.GetInt64())
+                .ToList()
+        };
+    }
+
     // Rule Operations
 
     public async Task<List<SubscriptionRule>> EnumerateRulesAsync(string namespaceName, string topicName, string subscriptionName, string token)
@@ -433,11 +433,11 @@ public sealed class ServiceBusOperationsService : IServiceBusOperationsService
             List<ServiceBusMessage> allMessages;
             if (queueName != null)
             {
-                allMessages = await _jsInterop.PeekQueueMessagesBySequenceAsync(namespaceName, queueName, token, sequenceNumbers, fromDeadLetter);
+                allMessages = (await _jsInterop.PeekQueueMessagesBySequenceAsync(namespaceName, queueName, token, sequenceNumbers, fromDeadLetter)).Messages;
             }
             else
             {
-                allMessages = await _jsInterop.PeekSubscriptionMessagesBySequenceAsync(namespaceName, topicName!, subscriptionName!, token, sequenceNumbers, fromDeadLetter);
+                allMessages = (await _jsInterop.PeekSubscriptionMessagesBySequenceAsync(namespaceName, topicName!, subscriptionName!, token, sequenceNumbers, fromDeadLetter)).Messages;
             }
             
             var messagesToResend = allMessages.Where(m => sequenceNumbers.Contains(m.SequenceNumber ?? -1)).ToList();
@@ -131,11 +131,16 @@ public class SimulatorTopologyTests
             ApplicationProperties = new Dictionary<string, object> { { "MyProp", "Value" } }
         };
 
-        // Mock Peek to return the message in the DLQ
-        _jsRuntimeMock.Setup(js => js.InvokeAsync<List<ServiceBusMessage>>(
+        // Mock Peek to return the message in the DLQ, shaped like the JS result
+        var peekResult = System.Text.Json.JsonSerializer.SerializeToElement(new
+        {
+            messages = new[] { originalMessage },
+            missingSequenceNumbers = Array.Empty<long>()
+        });
+        _jsRuntimeMock.Setup(js => js.InvokeAsync<System.Text.Json.JsonElement>(
             "ServiceBusAPI.peekQueueMessagesBySequence",
             It.Is<object?[]>(args => args.Contains(queue) && args.Length > 4 && args[4] is bool && (bool)args[4]))) // is DLQ
-            .ReturnsAsync(new List<ServiceBusMessage> { originalMessage });
+            .ReturnsAsync(peekResult);
 
         // 2. Act: Run the resubmit operation
         var authMock = new Mock<IAuthenticationService>();